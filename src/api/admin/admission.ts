@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+export const getAdmission = async (_req: Request, res: Response): Promise<void> => {
+  const response: ApiResponse = {
+    success: true,
+    message: 'Admission status retrieved successfully',
+    data: await sessionManager.getAdmissionStatus(),
+  };
+
+  res.status(200).json(response);
+};
+
+// Draining turns away new sessions on this instance while running ones carry on
+export const updateAdmission = (open: boolean) => {
+  return async (req: Request, res: Response): Promise<void> => {
+    sessionManager.setAdmission(open);
+
+    logger.warn(open ? 'Admission resumed by admin' : 'Admission drained by admin', {
+      userId: req.auth?.userId,
+      ip: req.ip,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: open ? 'Session admission resumed' : 'Session admission drained',
+      data: await sessionManager.getAdmissionStatus(),
+    };
+
+    res.status(200).json(response);
+  };
+};
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import auditLog from '../../services/auditLog';
+import logger from '../../utils/logger';
+import { toCsv } from '../../utils/csv';
+import { ApiResponse, AuditEvent, AuditQuery, SessionAction } from '../../types';
+
+const ACTIONS = ['start', 'stop', 'extend', 'expire', 'cleanup'];
+const FORMATS = ['json', 'csv', 'ndjson'];
+const DEFAULT_LIMIT = 1000;
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'id',
+  'timestamp',
+  'action',
+  'containerId',
+  'userId',
+  'actor',
+  'ip',
+  'userAgent',
+  'image',
+  'profile',
+  'reason',
+  'requestId',
+  'instanceId',
+  'metadata',
+];
+
+// Validation rules
+export const validateListAudit = [
+  query(['userId', 'containerId'])
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Must be a string between 1 and 100 characters'),
+  query('action')
+    .optional()
+    .isIn(ACTIONS)
+    .withMessage(`Action must be one of ${ACTIONS.join(', ')}`),
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Must be an ISO 8601 date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 10000 })
+    .toInt()
+    .withMessage('Limit must be between 1 and 10000'),
+  query('format')
+    .optional()
+    .isIn(FORMATS)
+    .withMessage(`Format must be one of ${FORMATS.join(', ')}`),
+];
+
+const toAuditQuery = (req: Request): AuditQuery => {
+  const { userId, containerId, action, from, to, limit } = req.query;
+  return {
+    ...(typeof userId === 'string' ? { userId } : {}),
+    ...(typeof containerId === 'string' ? { containerId } : {}),
+    ...(typeof action === 'string' ? { action: action as SessionAction['action'] } : {}),
+    ...(typeof from === 'string' ? { from: Date.parse(from) } : {}),
+    ...(typeof to === 'string' ? { to: Date.parse(to) } : {}),
+    limit: typeof limit === 'number' ? limit : DEFAULT_LIMIT,
+  };
+};
+
+// Session audit events, filtered; ?format=csv or ndjson downloads them
+export const listAuditEvents = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Audit query validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const auditQuery = toAuditQuery(req);
+    const events = await auditLog.query(auditQuery);
+    const format = req.query['format'] || 'json';
+
+    const duration = Date.now() - startTime;
+    logger.info('Audit events listed', {
+      ...auditQuery,
+      format,
+      events: events.length,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    if (format === 'csv') {
+      res.attachment('session-audit.csv').type('text/csv').status(200).send(toCsv(CSV_COLUMNS, events));
+      return;
+    }
+    if (format === 'ndjson') {
+      const body = events.map(event => `${JSON.stringify(event)}\n`).join('');
+      res.attachment('session-audit.ndjson').type('application/x-ndjson').status(200).send(body);
+      return;
+    }
+
+    const response: ApiResponse<{ events: AuditEvent[] }> = {
+      success: true,
+      message: 'Audit events retrieved successfully',
+      data: { events },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error listing audit events', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+// Runs the orphan cleanup now instead of waiting for the cleanup interval
+export const runCleanup = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const orphanedContainers = await sessionManager.cleanupExpiredSessions();
+
+    const duration = Date.now() - startTime;
+    logger.info('Cleanup triggered by admin', {
+      orphanedContainers,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<{ orphanedContainers: number }> = {
+      success: true,
+      message: 'Cleanup completed',
+      data: { orphanedContainers },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error running cleanup', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
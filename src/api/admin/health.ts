@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+// Docker node and Redis health in detail; 503 when either is down
+export const getHealth = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const report = await sessionManager.getHealthReport();
+
+    const duration = Date.now() - startTime;
+    logger.debug('Admin health report', {
+      healthy: report['healthy'],
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: report['healthy'] ? 'All systems healthy' : 'Some systems are unhealthy',
+      data: report,
+    };
+
+    res.status(report['healthy'] ? 200 : 503).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error building health report', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { listSessions } from './listSessions';
+import { forceStopAllSessions, forceStopSession, validateForceStopSession } from './stopSessions';
+import { setSessionExpiry, validateSetSessionExpiry } from './sessionExpiry';
+import { listSessionMetrics } from './sessionMetrics';
+import { runCleanup } from './cleanup';
+import { getAdmission, updateAdmission } from './admission';
+import { getHealth } from './health';
+import { listAuditEvents, validateListAudit } from './audit';
+import { authenticate, requireRole } from '../../middleware/auth';
+
+const router = Router();
+
+// Every admin route needs the admin role
+router.use(authenticate, requireRole('admin'));
+
+router.get('/sessions', listSessions);
+router.get('/sessions/metrics', listSessionMetrics);
+router.post('/sessions/stop-all', forceStopAllSessions);
+router.post('/sessions/:containerId/stop', validateForceStopSession, forceStopSession);
+router.put('/sessions/:containerId/expiry', validateSetSessionExpiry, setSessionExpiry);
+router.post('/cleanup', runCleanup);
+router.get('/admission', getAdmission);
+router.post('/admission/drain', updateAdmission(false));
+router.post('/admission/resume', updateAdmission(true));
+router.get('/health', getHealth);
+router.get('/audit', validateListAudit, listAuditEvents);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import logger from '../../utils/logger';
+import { ApiResponse, FleetSession } from '../../types';
+
+// Every session on record, soonest to expire first
+export const listSessions = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const sessions = await sessionManager.getFleetSessions();
+
+    const duration = Date.now() - startTime;
+    logger.info('Fleet sessions listed', {
+      sessions: sessions.length,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<{ count: number; sessions: FleetSession[] }> = {
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: { count: sessions.length, sessions },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error listing fleet sessions', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
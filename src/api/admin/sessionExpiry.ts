@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import sessionManager from '../../services/sessionManager';
+import { getActionClient } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+// Validation rules
+export const validateSetSessionExpiry = [
+  param('containerId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Container ID must be a string between 1 and 100 characters'),
+  body('expiresAt')
+    .isISO8601()
+    .withMessage('expiresAt must be an ISO 8601 date')
+    .bail()
+    .custom((expiresAt: string) => Date.parse(expiresAt) > Date.now())
+    .withMessage('expiresAt must be in the future'),
+];
+
+// Moves a session's expiry either way, past quota limits and the profile's maximum
+export const setSessionExpiry = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Set session expiry validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const containerId = req.params['containerId'] || '';
+    const expiresAt = Date.parse(req.body.expiresAt);
+
+    if (!(await sessionManager.setSessionExpiry(containerId, expiresAt, getActionClient(req)))) {
+      const duration = Date.now() - startTime;
+      logger.warn('Attempted to set expiry of unknown session', {
+        containerId,
+        userId: req.auth?.userId,
+        duration: `${duration}ms`,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session not found or already expired',
+        data: { containerId },
+      };
+
+      res.status(404).json(response);
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Session expiry set', {
+      containerId,
+      expiresAt: new Date(expiresAt).toISOString(),
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Session expiry updated successfully',
+      data: {
+        containerId,
+        expiresAt,
+        remainingTimeMs: await sessionManager.getRemainingTime(containerId),
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error setting session expiry', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      containerId: req.params['containerId'],
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
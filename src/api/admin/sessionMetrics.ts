@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import logger from '../../utils/logger';
+import { ApiResponse, ContainerStats, SessionMetrics } from '../../types';
+
+interface MetricsTotals {
+  sessions: number;
+  cpuPercent: number;
+  memoryBytes: number;
+  networkRxBytes: number;
+  networkTxBytes: number;
+  blockReadBytes: number;
+  blockWriteBytes: number;
+  pids: number;
+}
+
+const sumCurrent = (sessions: SessionMetrics[]): MetricsTotals => {
+  const current = sessions
+    .map(session => session.current)
+    .filter((stats): stats is ContainerStats => stats !== null);
+  const sum = (field: keyof Omit<ContainerStats, 'timestamp' | 'memoryLimitBytes'>): number =>
+    current.reduce((total, stats) => total + stats[field], 0);
+
+  return {
+    sessions: sessions.length,
+    cpuPercent: sum('cpuPercent'),
+    memoryBytes: sum('memoryBytes'),
+    networkRxBytes: sum('networkRxBytes'),
+    networkTxBytes: sum('networkTxBytes'),
+    blockReadBytes: sum('blockReadBytes'),
+    blockWriteBytes: sum('blockWriteBytes'),
+    pids: sum('pids'),
+  };
+};
+
+// Current usage and recent history of every active session, plus totals
+export const listSessionMetrics = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const sessions = await sessionManager.getAllSessionMetrics();
+    const totals = sumCurrent(sessions);
+
+    const duration = Date.now() - startTime;
+    logger.info('Session metrics listed', {
+      sessions: sessions.length,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<{ totals: MetricsTotals; sessions: SessionMetrics[] }> = {
+      success: true,
+      message: 'Session metrics retrieved successfully',
+      data: { totals, sessions },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error listing session metrics', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import sessionManager from '../../services/sessionManager';
+import { getActionClient } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+// Validation rules
+export const validateForceStopSession = [
+  param('containerId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Container ID must be a string between 1 and 100 characters'),
+];
+
+// Ends any user's session
+export const forceStopSession = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Force stop validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const containerId = req.params['containerId'] || '';
+    const owner = sessionManager.getSessionOwner(containerId);
+    if (owner === undefined) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session not found or already stopped',
+        data: { containerId },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const stopped = await sessionManager.stopSession(containerId, 'admin-stopped', getActionClient(req));
+
+    const duration = Date.now() - startTime;
+    logger.warn('Session force-stopped', {
+      containerId,
+      owner,
+      stopped,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    // A failed teardown is retried by the cleanup interval
+    const response: ApiResponse = stopped
+      ? { success: true, message: 'Session stopped successfully', data: { containerId, stopped } }
+      : { success: false, error: 'Failed to stop session container, will retry', data: { containerId, stopped } };
+
+    res.status(stopped ? 200 : 500).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error force-stopping session', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      containerId: req.params['containerId'],
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const forceStopAllSessions = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const result = await sessionManager.stopAllSessions('admin-stopped', getActionClient(req));
+
+    const duration = Date.now() - startTime;
+    logger.warn('All sessions force-stopped', {
+      ...result,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<{ stopped: number; failed: number }> = {
+      success: result.failed === 0,
+      message: `Stopped ${result.stopped} session(s)`,
+      data: result,
+    };
+
+    res.status(result.failed === 0 ? 200 : 500).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error force-stopping all sessions', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
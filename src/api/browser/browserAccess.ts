@@ -0,0 +1,17 @@
+import authService from '../../services/authService';
+import config from '../../config';
+import { ACCESS_TOKEN_PARAM } from '../../utils/credentials';
+
+export interface BrowserAccess {
+  publicBrowserUrl: string;
+  accessToken: string;
+}
+
+// The access token lets the browser iframe reach the proxy without headers
+export const getBrowserAccess = (containerId: string, userId: string): BrowserAccess => {
+  const accessToken = authService.issueSessionAccessToken(userId, containerId);
+  const publicBrowserUrl = `${config.publicBaseUrl}/browser-session/${containerId}/`
+    + (config.security.authEnabled ? `?${ACCESS_TOKEN_PARAM}=${encodeURIComponent(accessToken)}` : '');
+
+  return { publicBrowserUrl, accessToken };
+};
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import sessionManager from '../../services/sessionManager';
-import { logSessionAction } from '../../utils/logger';
+import { QuotaExceededError } from '../../services/quotaService';
+import { getActionClient } from '../../middleware/auth';
 import logger from '../../utils/logger';
 import { ApiResponse } from '../../types';
 
@@ -64,18 +65,32 @@ export const extendSession = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Extend session
-    const success = sessionManager.extendSession(containerId, extendByMs);
-
-    if (success) {
-      // Log the session extension action
-      logSessionAction('extend-session', {
+    // Sessions cannot outlive their profile's maximum duration
+    const maxExtensionMs = sessionManager.getMaxExtensionMs(containerId);
+    if (extendByMs > maxExtensionMs) {
+      const duration = Date.now() - startTime;
+      logger.warn('Extension exceeds profile maximum duration', {
         containerId,
         extendByMs,
-        userAgent: req.get('User-Agent'),
+        maxExtensionMs,
+        duration: `${duration}ms`,
         ip: req.ip,
       });
 
+      const response: ApiResponse = {
+        success: false,
+        error: 'Extension exceeds the maximum duration of the session profile',
+        data: { containerId, extended: false, maxExtensionMs },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    // Extend session
+    const success = await sessionManager.extendSession(containerId, extendByMs, getActionClient(req));
+
+    if (success) {
       const duration = Date.now() - startTime;
       logger.info('Session extended successfully', {
         containerId,
@@ -123,8 +138,9 @@ export const extendSession = async (req: Request, res: Response): Promise<void>
     const response: ApiResponse = {
       success: false,
       error: errorMessage,
+      ...(error instanceof QuotaExceededError ? { data: error.toJSON() } : {}),
     };
 
-    res.status(500).json(response);
+    res.status(error instanceof QuotaExceededError ? error.statusCode : 500).json(response);
   }
 }; 
\ No newline at end of file
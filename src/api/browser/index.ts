@@ -3,8 +3,15 @@ import { startSession, validateStartSession } from './startSession';
 import { stopSession, validateStopSession } from './stopSession';
 import { getRemainingTime, validateRemainingTime } from './remainingTime';
 import { extendSession, validateExtendSession } from './extendSession';
+import { listSessions, getSession, validateGetSession } from './listSessions';
+import { listProfiles } from './profiles';
+import { getSessionStatus, validateSessionStatus } from './sessionStatus';
+import { streamSessionEvents } from './sessionEvents';
+import { getSessionMetrics, validateSessionMetrics } from './sessionMetrics';
+import { getQueueTicket, cancelQueueTicket, validateQueueTicket } from './queue';
 import { createSessionRateLimiter } from '../../services/rateLimiter';
 import { proxyToBrowser } from './proxyToBrowser';
+import { authenticate, authorizeProxy, requireSessionOwner } from '../../middleware/auth';
 
 const router = Router();
 
@@ -12,10 +19,19 @@ const router = Router();
 const sessionRateLimiter = createSessionRateLimiter();
 
 // Session management routes
-router.post('/start-session', sessionRateLimiter, validateStartSession, startSession);
-router.post('/stop-session', validateStopSession, stopSession);
-router.get('/remaining-time', validateRemainingTime, getRemainingTime);
-router.post('/extend-session', validateExtendSession, extendSession);
-router.use('/proxy/:containerId', proxyToBrowser);
+router.post('/start-session', authenticate, sessionRateLimiter, validateStartSession, startSession);
+router.post('/stop-session', authenticate, validateStopSession, requireSessionOwner('body'), stopSession);
+router.get('/remaining-time', authenticate, validateRemainingTime, requireSessionOwner('query'), getRemainingTime);
+router.post('/extend-session', authenticate, validateExtendSession, requireSessionOwner('body'), extendSession);
+router.get('/profiles', authenticate, listProfiles);
+router.get('/sessions', authenticate, listSessions);
+router.get('/sessions/:containerId', authenticate, validateGetSession, getSession);
+router.get('/sessions/:id/status', authenticate, validateSessionStatus, getSessionStatus);
+router.get('/sessions/:containerId/metrics', authenticate, validateSessionMetrics, getSessionMetrics);
+// EventSource cannot send headers, so this accepts the session access token like the proxy
+router.get('/sessions/:containerId/events', authorizeProxy, streamSessionEvents);
+router.get('/queue/:ticketId', authenticate, validateQueueTicket, getQueueTicket);
+router.delete('/queue/:ticketId', authenticate, validateQueueTicket, cancelQueueTicket);
+router.use('/proxy/:containerId', authorizeProxy, proxyToBrowser);
 
 export default router; 
\ No newline at end of file
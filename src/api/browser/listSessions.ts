@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import sessionManager from '../../services/sessionManager';
+import { canAccessSession } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse, SessionResponse } from '../../types';
+import { BrowserAccess, getBrowserAccess } from './browserAccess';
+
+// Validation rules
+export const validateGetSession = [
+  param('containerId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Container ID must be a string between 1 and 100 characters'),
+];
+
+export const listSessions = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+  const userId = req.auth?.userId || 'anonymous';
+
+  try {
+    const sessions = sessionManager.getSessionsByOwner(userId).map(session => ({
+      ...session,
+      ...getBrowserAccess(session.containerId, userId),
+    }));
+
+    const duration = Date.now() - startTime;
+    logger.info('Sessions listed successfully', {
+      userId,
+      count: sessions.length,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<{ sessions: Array<SessionResponse & BrowserAccess> }> = {
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: { sessions },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error listing sessions', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      userId,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const getSession = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Get session validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const containerId = req.params['containerId'] || '';
+    const session = sessionManager.getSessionInfo(containerId);
+
+    // Other users' sessions are reported as missing, same as in the listing
+    if (!session || !sessionManager.isSessionActive(containerId) || !canAccessSession(req.auth, containerId)) {
+      const duration = Date.now() - startTime;
+      logger.warn('Attempted to get non-existent, inactive or foreign session', {
+        containerId,
+        userId: req.auth?.userId,
+        duration: `${duration}ms`,
+        ip: req.ip,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session not found or already expired',
+        data: { containerId },
+      };
+
+      res.status(404).json(response);
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Session retrieved successfully', {
+      containerId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<SessionResponse & BrowserAccess> = {
+      success: true,
+      message: 'Session retrieved successfully',
+      data: {
+        ...session,
+        ...getBrowserAccess(containerId, session.userId || 'anonymous'),
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error getting session', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      containerId: req.params['containerId'],
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
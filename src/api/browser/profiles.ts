@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import profileCatalog from '../../services/profileCatalog';
+import config from '../../config';
+import logger from '../../utils/logger';
+import { ApiResponse, SessionProfile } from '../../types';
+
+// Clients only need what to show and how long a session may run
+type ProfileSummary = Pick<
+  SessionProfile,
+  'name' | 'displayName' | 'description' | 'image' | 'memoryLimit' | 'cpuLimit' | 'maxDurationMs'
+> & { isDefault: boolean };
+
+export const listProfiles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const profiles: ProfileSummary[] = profileCatalog.list().map(profile => ({
+      name: profile.name,
+      displayName: profile.displayName,
+      ...(profile.description ? { description: profile.description } : {}),
+      image: profile.image,
+      memoryLimit: profile.memoryLimit,
+      cpuLimit: profile.cpuLimit,
+      maxDurationMs: profile.maxDurationMs,
+      isDefault: profile.name === config.docker.defaultProfile,
+    }));
+
+    const response: ApiResponse<{ profiles: ProfileSummary[] }> = {
+      success: true,
+      message: 'Profiles retrieved successfully',
+      data: { profiles },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error listing profiles', {
+      error: errorMessage,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
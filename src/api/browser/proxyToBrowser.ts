@@ -1,26 +1,62 @@
+import { ClientRequest } from 'http';
 import { Request, Response, NextFunction } from 'express';
 import { createProxyMiddleware } from 'http-proxy-middleware';
 import sessionManager from '../../services/sessionManager';
+import metrics from '../../services/metrics';
+import { CREDENTIAL_HEADERS, removeAccessToken, removeSessionCookies } from '../../utils/credentials';
+
+// The browser in the container gets neither the caller's API credentials nor
+// the session access token
+const stripCredentials = (proxyReq: ClientRequest): void => {
+  CREDENTIAL_HEADERS.forEach(header => proxyReq.removeHeader(header));
+
+  const cookies = removeSessionCookies(String(proxyReq.getHeader('cookie') || ''));
+  if (cookies) {
+    proxyReq.setHeader('cookie', cookies);
+  } else {
+    proxyReq.removeHeader('cookie');
+  }
+};
 
 export const proxyToBrowser = (req: Request, res: Response, next: NextFunction): void => {
   const containerId = req.params['containerId'] || '';
-  const hostPort = sessionManager.getSessionHostPort(containerId);
+  const target = sessionManager.getSessionTarget(containerId);
 
-  if (typeof hostPort !== 'number' || isNaN(hostPort)) {
+  if (!target || isNaN(target.port)) {
     res.status(404).json({ success: false, error: 'Session not found or not active' });
     return;
   }
 
+  if (sessionManager.getSessionStatus(containerId) === 'starting') {
+    res.set('Retry-After', '2');
+    res.status(503).json({ success: false, error: 'Session is still starting' });
+    return;
+  }
+
+  res.once('finish', () => {
+    metrics.proxyRequests.inc({ status: `${Math.floor(res.statusCode / 100)}xx` });
+  });
+  const requestBytes = parseInt(req.get('Content-Length') || '0', 10);
+  if (requestBytes > 0) {
+    metrics.proxyBytes.inc({ direction: 'upstream' }, requestBytes);
+  }
+
   // Return the middleware function directly
   const proxy = createProxyMiddleware({
-    target: `http://host.docker.internal:${hostPort.toString()}`,
+    target: `http://${target.host}:${target.port.toString()}`,
     changeOrigin: true,
     ws: true,
-    pathRewrite: (path: string, _req: Request) => {
-      // Remove /proxy/:containerId from the path
-      const match = path.match(/^\/proxy\/[a-zA-Z0-9]+\/(.*)$/);
-      return match ? `/${match[1]}` : '/';
-    }
+    // Express already stripped the /proxy/:containerId mount path
+    pathRewrite: (path: string) => removeAccessToken(path),
+    on: {
+      proxyReq: stripCredentials,
+      proxyReqWs: stripCredentials,
+      proxyRes: (proxyRes) => {
+        proxyRes.on('data', (chunk: Buffer) => {
+          metrics.proxyBytes.inc({ direction: 'downstream' }, chunk.length);
+        });
+      },
+    },
   });
   proxy(req, res, next);
 }; 
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import admissionQueue from '../../services/admissionQueue';
+import { canAccessOwnedBy } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse, QueueTicketStatus } from '../../types';
+
+// Validation rules
+export const validateQueueTicket = [
+  param('ticketId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Ticket ID must be a string between 1 and 100 characters'),
+];
+
+const rejectInvalid = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  logger.warn('Queue ticket validation failed', {
+    errors: errors.array(),
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  const response: ApiResponse = {
+    success: false,
+    error: 'Validation failed',
+    data: { errors: errors.array() },
+  };
+
+  res.status(400).json(response);
+  return true;
+};
+
+const respondNotFound = (req: Request, res: Response, ticketId: string): void => {
+  logger.warn('Attempted to access unknown or foreign queue ticket', {
+    ticketId,
+    userId: req.auth?.userId,
+    ip: req.ip,
+  });
+
+  const response: ApiResponse = {
+    success: false,
+    error: 'Queue ticket not found',
+    data: { ticketId },
+  };
+
+  res.status(404).json(response);
+};
+
+// Polling keeps the ticket in the queue; once admitted, statusUrl points at the session job
+export const getQueueTicket = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    if (rejectInvalid(req, res)) return;
+
+    const ticketId = req.params['ticketId'] || '';
+    const ticket = await admissionQueue.touch(ticketId);
+    if (!ticket || !canAccessOwnedBy(req.auth, ticket.userId)) {
+      respondNotFound(req, res, ticketId);
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    logger.debug('Queue ticket polled', {
+      ticketId,
+      state: ticket.state,
+      position: ticket.position,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<QueueTicketStatus & { statusUrl?: string }> = {
+      success: true,
+      message: 'Queue ticket retrieved successfully',
+      data: {
+        ...ticket,
+        ...(ticket.jobId ? { statusUrl: `/api/browser/sessions/${ticket.jobId}/status` } : {}),
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error getting queue ticket', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ticketId: req.params['ticketId'],
+      ip: req.ip,
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
+
+export const cancelQueueTicket = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    if (rejectInvalid(req, res)) return;
+
+    const ticketId = req.params['ticketId'] || '';
+    const ticket = await admissionQueue.touch(ticketId);
+    if (!ticket || !canAccessOwnedBy(req.auth, ticket.userId)) {
+      respondNotFound(req, res, ticketId);
+      return;
+    }
+
+    // Only the issuing replica can take a ticket out of its queue
+    if (ticket.state === 'waiting' && !admissionQueue.isLocal(ticketId)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Queue ticket can only be cancelled on the replica that issued it',
+        data: { ticketId, state: ticket.state },
+      };
+
+      res.status(409).json(response);
+      return;
+    }
+
+    if (!admissionQueue.cancel(ticketId)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Queue ticket is already ${ticket.state}`,
+        data: { ticketId, state: ticket.state },
+      };
+
+      res.status(409).json(response);
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Queue ticket cancelled', {
+      ticketId,
+      userId: req.auth?.userId,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Queue ticket cancelled',
+      data: { ticketId },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error cancelling queue ticket', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      ticketId: req.params['ticketId'],
+      ip: req.ip,
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
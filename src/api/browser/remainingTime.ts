@@ -60,7 +60,7 @@ export const getRemainingTime = async (req: Request, res: Response): Promise<voi
     }
 
     // Get remaining time
-    const remainingTimeMs = sessionManager.getRemainingTime(containerId);
+    const remainingTimeMs = await sessionManager.getRemainingTime(containerId);
 
     const duration = Date.now() - startTime;
     logger.info('Remaining time retrieved successfully', {
@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import sessionManager from '../../services/sessionManager';
+import sessionEvents from '../../services/sessionEvents';
+import config from '../../config';
+import logger from '../../utils/logger';
+import { ApiResponse, SessionEvent } from '../../types';
+
+// Server-Sent Events stream for one session: a `session` snapshot on connect,
+// lifecycle events as they happen and a periodic `countdown`. The stream ends
+// after the final expired/stopped/container-crashed event.
+export const streamSessionEvents = (req: Request, res: Response): void => {
+  const startTime = Date.now();
+  const containerId = req.params['containerId'] || '';
+  const session = sessionManager.getSessionInfo(containerId);
+
+  if (!session || !sessionManager.isSessionActive(containerId)) {
+    logger.warn('Attempted to stream events of non-existent or inactive session', {
+      containerId,
+      ip: req.ip,
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Session not found or already expired',
+      data: { containerId },
+    };
+
+    res.status(404).json(response);
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering the stream
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Same for nginx
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const send = (type: string, data: object): void => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let closed = false;
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+
+    const duration = Date.now() - startTime;
+    logger.info('Session event stream closed', {
+      containerId,
+      duration: `${duration}ms`,
+    });
+  };
+
+  const heartbeat = setInterval(() => {
+    const current = sessionManager.getSessionInfo(containerId);
+    if (current) {
+      send('countdown', {
+        containerId,
+        expiresAt: current.expiresAt,
+        remainingTimeMs: current.remainingTimeMs,
+      });
+    }
+  }, config.events.heartbeatIntervalMs);
+
+  const unsubscribe = sessionEvents.subscribe(containerId, (event: SessionEvent) => {
+    send(event.type, event);
+    if (sessionEvents.isFinal(event)) {
+      close();
+      res.end();
+    }
+  });
+
+  req.on('close', close);
+
+  logger.info('Session event stream opened', {
+    containerId,
+    userId: req.auth?.userId,
+    ip: req.ip,
+  });
+
+  send('session', session);
+};
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import sessionManager from '../../services/sessionManager';
+import { canAccessSession } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse, SessionMetrics } from '../../types';
+
+// Validation rules
+export const validateSessionMetrics = [
+  param('containerId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Container ID must be a string between 1 and 100 characters'),
+];
+
+export const getSessionMetrics = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Session metrics validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const containerId = req.params['containerId'] || '';
+    const metrics = canAccessSession(req.auth, containerId)
+      ? await sessionManager.getSessionMetrics(containerId)
+      : null;
+
+    // Other users' sessions are reported as missing
+    if (!metrics) {
+      const duration = Date.now() - startTime;
+      logger.warn('Attempted to get metrics of unknown or foreign session', {
+        containerId,
+        userId: req.auth?.userId,
+        duration: `${duration}ms`,
+        ip: req.ip,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session not found or already expired',
+        data: { containerId },
+      };
+
+      res.status(404).json(response);
+      return;
+    }
+
+    const duration = Date.now() - startTime;
+    logger.debug('Session metrics retrieved', {
+      containerId,
+      samples: metrics.history.length,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<SessionMetrics> = {
+      success: true,
+      message: 'Session metrics retrieved successfully',
+      data: metrics,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error getting session metrics', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      containerId: req.params['containerId'],
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
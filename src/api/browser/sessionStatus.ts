@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { param, validationResult } from 'express-validator';
+import sessionManager from '../../services/sessionManager';
+import { canAccessOwnedBy, canAccessSession } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { ApiResponse, SessionJobState, SessionResponse } from '../../types';
+import { BrowserAccess, getBrowserAccess } from './browserAccess';
+
+interface SessionStatusResponse {
+  sessionId: string;
+  state: SessionJobState;
+  profile?: string;
+  containerId?: string;
+  error?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  session?: SessionResponse & BrowserAccess;
+}
+
+// Validation rules
+export const validateSessionStatus = [
+  param('id')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Session ID must be a string between 1 and 100 characters'),
+];
+
+// Accepts either an async start job ID or a container ID, so clients can keep
+// polling the same URL regardless of how the session was started.
+export const getSessionStatus = async (req: Request, res: Response): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      const duration = Date.now() - startTime;
+      logger.warn('Session status validation failed', {
+        errors: errors.array(),
+        duration: `${duration}ms`,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation failed',
+        data: { errors: errors.array() },
+      };
+
+      res.status(400).json(response);
+      return;
+    }
+
+    const id = req.params['id'] || '';
+    const job = await sessionManager.getSessionJob(id);
+    const canAccessJob = job !== undefined && canAccessOwnedBy(req.auth, job.userId);
+    const containerId = job ? job.containerId : id;
+    const session = containerId && sessionManager.isSessionActive(containerId) && canAccessSession(req.auth, containerId)
+      ? sessionManager.getSessionInfo(containerId)
+      : null;
+
+    // Other users' jobs and sessions are reported as missing
+    if (job ? !canAccessJob : !session) {
+      const duration = Date.now() - startTime;
+      logger.warn('Attempted to get status of unknown or foreign session', {
+        sessionId: id,
+        userId: req.auth?.userId,
+        duration: `${duration}ms`,
+        ip: req.ip,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Session not found or already expired',
+        data: { sessionId: id },
+      };
+
+      res.status(404).json(response);
+      return;
+    }
+
+    const data: SessionStatusResponse = job
+      ? {
+        sessionId: job.id,
+        state: job.state,
+        profile: job.profile,
+        ...(job.containerId ? { containerId: job.containerId } : {}),
+        ...(job.error ? { error: job.error } : {}),
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+      }
+      : {
+        sessionId: id,
+        state: session!.status || 'ready',
+        containerId: id,
+        ...(session!.profile ? { profile: session!.profile } : {}),
+        ...(session!.createdAt ? { createdAt: session!.createdAt } : {}),
+      };
+
+    // Session details are only present while the container is still running
+    if (session) {
+      data.session = {
+        ...session,
+        ...getBrowserAccess(session.containerId, session.userId || 'anonymous'),
+      };
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Session status retrieved', {
+      sessionId: id,
+      state: data.state,
+      duration: `${duration}ms`,
+    });
+
+    const response: ApiResponse<SessionStatusResponse> = {
+      success: true,
+      message: 'Session status retrieved successfully',
+      data,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = (error as Error).message;
+
+    logger.error('Error getting session status', {
+      error: errorMessage,
+      duration: `${duration}ms`,
+      sessionId: req.params['id'],
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import sessionManager from '../../services/sessionManager';
-import { logSessionAction } from '../../utils/logger';
+import sessionManager, { AdmissionClosedError, CapacityError } from '../../services/sessionManager';
+import profileCatalog from '../../services/profileCatalog';
+import { QuotaExceededError } from '../../services/quotaService';
+import admissionQueue, { AdmissionQueueFullError } from '../../services/admissionQueue';
+import { getActionClient } from '../../middleware/auth';
 import logger from '../../utils/logger';
-import { ApiResponse, SessionResponse } from '../../types';
-import config from '../../config';
+import { ApiResponse, QueueTicketStatus, SessionJob, SessionResponse } from '../../types';
+import { BrowserAccess, getBrowserAccess } from './browserAccess';
 
 // Validation rules
 export const validateStartSession = [
@@ -12,14 +15,67 @@ export const validateStartSession = [
     .optional()
     .isInt({ min: 60000, max: 3600000 }) // 1 minute to 1 hour
     .withMessage('Duration must be between 60000 and 3600000 milliseconds'),
-  body('userId')
+  body('profile')
     .optional()
     .isString()
     .trim()
-    .isLength({ min: 1, max: 100 })
-    .withMessage('User ID must be a string between 1 and 100 characters'),
+    .custom((name: string) => profileCatalog.has(name))
+    .withMessage('Unknown session profile'),
+  body('durationMs')
+    .optional()
+    .custom((durationMs: number, { req }) => {
+      const name: string | undefined = req.body.profile;
+      // Unknown profiles are reported by the profile rule above
+      return (name !== undefined && !profileCatalog.has(name)) || durationMs <= profileCatalog.get(name).maxDurationMs;
+    })
+    .withMessage('Duration exceeds the maximum for this profile'),
+  body('waitForReady')
+    .optional()
+    .isBoolean()
+    .toBoolean()
+    .withMessage('waitForReady must be a boolean'),
+  body('async')
+    .optional()
+    .isBoolean()
+    .toBoolean()
+    .withMessage('async must be a boolean'),
+  body('queue')
+    .optional()
+    .isBoolean()
+    .toBoolean()
+    .withMessage('queue must be a boolean'),
 ];
 
+// Wait in the admission queue instead of failing with 429 when the pool is full
+const respondQueued = (req: Request, res: Response, startTime: number): void => {
+  const { durationMs, profile } = req.body;
+  const ticket = sessionManager.enqueueSession({
+    owner: req.auth || { userId: 'anonymous' },
+    client: getActionClient(req),
+    ...(durationMs ? { durationMs } : {}),
+    ...(profile ? { profile } : {}),
+  });
+
+  const duration = Date.now() - startTime;
+  logger.info('Session start queued', {
+    ticketId: ticket.id,
+    position: ticket.position,
+    duration: `${duration}ms`,
+    userId: req.auth?.userId,
+  });
+
+  const response: ApiResponse<QueueTicketStatus & { statusUrl: string }> = {
+    success: true,
+    message: 'Session pool is full, request queued',
+    data: {
+      ...ticket,
+      statusUrl: `/api/browser/queue/${ticket.id}`,
+    },
+  };
+
+  res.status(202).json(response);
+};
+
 export const startSession = async (req: Request, res: Response): Promise<void> => {
   const startTime = Date.now();
 
@@ -45,20 +101,68 @@ export const startSession = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    const { durationMs, userId } = req.body;
+    const { durationMs, profile, waitForReady } = req.body;
+    // The owner always comes from the verified identity, never from the body
+    const userId = req.auth?.userId;
+    const queueWhenFull = req.body.queue === true && admissionQueue.isEnabled();
 
-    // Create session
-    const session = await sessionManager.createSession(durationMs, userId);
+    // Async mode: accept the request and let the client poll the job status
+    if (req.body.async === true) {
+      let job: SessionJob;
+      try {
+        job = await sessionManager.createSessionAsync({
+          durationMs,
+          profile,
+          ...(req.auth ? { owner: req.auth } : {}),
+          client: getActionClient(req),
+        });
+      } catch (error) {
+        if (queueWhenFull && error instanceof CapacityError) {
+          respondQueued(req, res, startTime);
+          return;
+        }
+        throw error;
+      }
 
-    // Log the session start action
-    logSessionAction('start-session', {
-      containerId: session.containerId,
-      hostPort: session.hostPort,
-      durationMs: durationMs || 300000,
-      userId,
-      userAgent: req.get('User-Agent'),
-      ip: req.ip,
-    });
+      const duration = Date.now() - startTime;
+      logger.info('Session start accepted', {
+        sessionId: job.id,
+        profile: job.profile,
+        duration: `${duration}ms`,
+        userId,
+      });
+
+      const response: ApiResponse<{ sessionId: string; state: string; statusUrl: string }> = {
+        success: true,
+        message: 'Session start accepted',
+        data: {
+          sessionId: job.id,
+          state: job.state,
+          statusUrl: `/api/browser/sessions/${job.id}/status`,
+        },
+      };
+
+      res.status(202).json(response);
+      return;
+    }
+
+    // Create session
+    let session: SessionResponse;
+    try {
+      session = await sessionManager.createSession({
+        durationMs,
+        profile,
+        ...(waitForReady !== undefined ? { waitForReady } : {}),
+        ...(req.auth ? { owner: req.auth } : {}),
+        client: getActionClient(req),
+      });
+    } catch (error) {
+      if (queueWhenFull && error instanceof CapacityError) {
+        respondQueued(req, res, startTime);
+        return;
+      }
+      throw error;
+    }
 
     const duration = Date.now() - startTime;
     logger.info('Session started successfully', {
@@ -68,16 +172,16 @@ export const startSession = async (req: Request, res: Response): Promise<void> =
       userId,
     });
 
-    // Explicitly add hostPort, browserUrl, and publicBrowserUrl to the response
-    const publicBrowserUrl = `${config.publicBaseUrl}/browser-session/${session.containerId}/`;
-    const response: ApiResponse<SessionResponse & { hostPort: number; browserUrl: string; publicBrowserUrl: string }> = {
+    // Explicitly add hostPort, browserUrl, publicBrowserUrl and accessToken to the response
+    const access = getBrowserAccess(session.containerId, userId || 'anonymous');
+    const response: ApiResponse<SessionResponse & BrowserAccess & { hostPort: number; browserUrl: string }> = {
       success: true,
       message: 'Session started successfully',
       data: {
         ...session,
         hostPort: session.hostPort,
         browserUrl: session.browserUrl,
-        publicBrowserUrl,
+        ...access,
       },
     };
 
@@ -89,7 +193,7 @@ export const startSession = async (req: Request, res: Response): Promise<void> =
     logger.error('Failed to start session', {
       error: errorMessage,
       duration: `${duration}ms`,
-      userId: req.body.userId,
+      userId: req.auth?.userId,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
     });
@@ -97,13 +201,20 @@ export const startSession = async (req: Request, res: Response): Promise<void> =
     const response: ApiResponse = {
       success: false,
       error: errorMessage,
+      ...(error instanceof QuotaExceededError ? { data: error.toJSON() } : {}),
+      ...(error instanceof AdmissionClosedError ? { data: { retryAfterSeconds: error.retryAfterSeconds } } : {}),
     };
 
     // Determine appropriate status code based on error type
     let statusCode = 500;
-    if (errorMessage.includes('Maximum number of sessions')) {
+    if (error instanceof QuotaExceededError) {
+      statusCode = error.statusCode;
+    } else if (error instanceof AdmissionClosedError) {
+      statusCode = 503; // Service Unavailable
+      res.set('Retry-After', String(error.retryAfterSeconds));
+    } else if (error instanceof CapacityError || error instanceof AdmissionQueueFullError) {
       statusCode = 429; // Too Many Requests
-    } else if (errorMessage.includes('Docker')) {
+    } else if (errorMessage.includes('Docker') || errorMessage.includes('did not become ready')) {
       statusCode = 503; // Service Unavailable
     }
 
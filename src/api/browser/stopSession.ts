@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import sessionManager from '../../services/sessionManager';
-import { logSessionAction } from '../../utils/logger';
+import { getActionClient } from '../../middleware/auth';
 import logger from '../../utils/logger';
 import { ApiResponse } from '../../types';
 
@@ -60,16 +60,9 @@ export const stopSession = async (req: Request, res: Response): Promise<void> =>
     }
 
     // Stop session
-    const success = await sessionManager.stopSession(containerId);
+    const success = await sessionManager.stopSession(containerId, 'user-stopped', getActionClient(req));
 
     if (success) {
-      // Log the session stop action
-      logSessionAction('stop-session', {
-        containerId,
-        userAgent: req.get('User-Agent'),
-        ip: req.ip,
-      });
-
       const duration = Date.now() - startTime;
       logger.info('Session stopped successfully', {
         containerId,
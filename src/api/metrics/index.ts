@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { serveMetrics } from './serveMetrics';
+import { requireMetricsToken } from '../../middleware/auth';
+
+const router = Router();
+
+router.get('/', requireMetricsToken, serveMetrics);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Request, Response } from 'express';
+import metrics from '../../services/metrics';
+import logger from '../../utils/logger';
+import { ApiResponse } from '../../types';
+
+// Prometheus text format
+export const serveMetrics = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const body = await metrics.render();
+    res.set('Content-Type', metrics.contentType);
+    res.status(200).send(body);
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    logger.error('Error rendering metrics', { error: errorMessage });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errorMessage,
+    };
+
+    res.status(500).json(response);
+  }
+};
\ No newline at end of file
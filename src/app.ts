@@ -10,7 +10,12 @@ import statusMonitor from 'express-status-monitor';
 import config from './config';
 import logger, { logRequest } from './utils/logger';
 import rateLimiter from './services/rateLimiter';
+import sessionManager from './services/sessionManager';
+import { requestId } from './middleware/requestId';
+import { redactUrl } from './utils/credentials';
 import browserRoutes from './api/browser';
+import adminRoutes from './api/admin';
+import metricsRoutes from './api/metrics';
 import { ApiResponse } from './types';
 
 // Swagger configuration
@@ -39,8 +44,14 @@ const swaggerOptions = {
           in: 'header',
           name: 'X-API-Key',
         },
+        BearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+        },
       },
     },
+    security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
   },
   apis: ['./dist/api/**/*.js'],
 };
@@ -50,6 +61,9 @@ const swaggerSpec = swaggerJsdoc(swaggerOptions);
 // Create Express app
 const app = express();
 
+// Request IDs come first so every response and log line carries one
+app.use(requestId);
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -68,13 +82,15 @@ app.use(cors({
   origin: config.cors.allowedOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
 }));
 
 // Compression middleware
 app.use(compression());
 
-// Request logging
+// Request logging; session access tokens in the URL are masked
+morgan.token('url', (req: Request) => redactUrl(req.originalUrl || req.url));
 app.use(morgan('combined', {
   stream: {
     write: (message: string) => {
@@ -141,6 +157,8 @@ app.get('/health', (_req: Request, res: Response) => {
     uptime: process.uptime(),
     environment: config.nodeEnv,
     version: process.env['npm_package_version'] || '1.0.0',
+    // Still healthy: running sessions are served until they end or are handed over
+    draining: !sessionManager.isAdmitting(),
   };
 
   res.status(200).json(healthCheck);
@@ -148,6 +166,13 @@ app.get('/health', (_req: Request, res: Response) => {
 
 // API routes
 app.use('/api/browser', browserRoutes);
+app.use('/api/admin', adminRoutes);
+
+// Prometheus metrics need METRICS_TOKEN on the API port; otherwise they are
+// only served on MONITORING_PORT
+if (config.monitoring.metricsToken) {
+  app.use('/metrics', metricsRoutes);
+}
 
 // Add Swagger JSDoc comments for browser endpoints
 /**
@@ -165,12 +190,24 @@ app.use('/api/browser', browserRoutes);
  *             properties:
  *               durationMs:
  *                 type: integer
- *                 description: Duration in milliseconds (min 60000, max 3600000)
+ *                 description: Duration in milliseconds (min 60000, max 3600000, capped by the profile)
  *                 example: 300000
- *               userId:
+ *               profile:
  *                 type: string
- *                 description: Optional user ID
- *                 example: test-user
+ *                 description: Session profile from GET /api/browser/profiles
+ *                 example: chromium
+ *               waitForReady:
+ *                 type: boolean
+ *                 description: Respond only once the app in the container answers (default true). When false the session is returned with status "starting".
+ *                 example: true
+ *               async:
+ *                 type: boolean
+ *                 description: Return 202 immediately and start the session in the background; poll statusUrl for progress
+ *                 example: false
+ *               queue:
+ *                 type: boolean
+ *                 description: When the pool is full, wait in the admission queue (202 with a ticket) instead of failing with 429
+ *                 example: false
  *     responses:
  *       201:
  *         description: Session started successfully
@@ -178,12 +215,16 @@ app.use('/api/browser', browserRoutes);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/SessionResponse'
+ *       202:
+ *         description: Session start accepted (async mode, body holds sessionId, state and statusUrl) or queued (body holds the ticket id, position, estimatedWaitMs and statusUrl)
  *       400:
  *         description: Validation failed
+ *       401:
+ *         description: Authentication required
  *       429:
- *         description: Too many sessions
+ *         description: Too many sessions or user/tenant quota exceeded
  *       503:
- *         description: Docker unavailable
+ *         description: Docker unavailable, container never became ready, or the instance is in maintenance (with a Retry-After header)
  *
  * /api/browser/stop-session:
  *   post:
@@ -207,6 +248,10 @@ app.use('/api/browser', browserRoutes);
  *         description: Session stopped successfully
  *       400:
  *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Session belongs to another user
  *       404:
  *         description: Session not found or already stopped
  *
@@ -226,6 +271,10 @@ app.use('/api/browser', browserRoutes);
  *         description: Remaining time retrieved successfully
  *       400:
  *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Session belongs to another user
  *       404:
  *         description: Session not found or already expired
  *
@@ -255,12 +304,414 @@ app.use('/api/browser', browserRoutes);
  *       200:
  *         description: Session extended successfully
  *       400:
+ *         description: Validation failed or extension exceeds the profile's maximum duration
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Session belongs to another user or extension quota exhausted
+ *       404:
+ *         description: Session not found or already expired
+ *       429:
+ *         description: Daily session-minutes quota exceeded
+ *
+ * /api/browser/profiles:
+ *   get:
+ *     summary: List the session profiles that can be launched
+ *     tags: [Session Management]
+ *     responses:
+ *       200:
+ *         description: Profiles retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *
+ * /api/browser/sessions:
+ *   get:
+ *     summary: List the caller's active sessions
+ *     tags: [Session Management]
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SessionResponse'
+ *       401:
+ *         description: Authentication required
+ *
+ * /api/browser/sessions/{containerId}:
+ *   get:
+ *     summary: Get details of one of the caller's sessions
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The session/container ID
+ *     responses:
+ *       200:
+ *         description: Session retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SessionResponse'
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Session not found, expired or owned by another user
+ *
+ * /api/browser/sessions/{id}/status:
+ *   get:
+ *     summary: Get the start state of a session
+ *     description: Accepts the sessionId of an async start or a container ID. States are queued, pulling, starting, ready and failed; failed jobs carry the reason in error.
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The async sessionId or the container ID
+ *     responses:
+ *       200:
+ *         description: Session status retrieved successfully
+ *       400:
  *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Unknown session, or owned by another user
+ *
+ * /api/browser/sessions/{containerId}/events:
+ *   get:
+ *     summary: Stream session lifecycle events (Server-Sent Events)
+ *     description: Sends a session snapshot, then extended, expiring-soon, expired, stopped, container-crashed and limit-exceeded events plus a periodic countdown. The stream closes after the session ends. Accepts the accessToken from start-session as access_token query parameter, since EventSource cannot send headers.
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The session/container ID
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Session access token
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Session belongs to another user
  *       404:
  *         description: Session not found or already expired
  *
+ * /api/browser/sessions/{containerId}/metrics:
+ *   get:
+ *     summary: Get live resource usage of a session
+ *     description: Returns the current sample (CPU %, memory usage and limit, network rx/tx, block I/O, PID count) and the recent history kept in memory, oldest first. History is sampled every SESSION_METRICS_HISTORY_INTERVAL_MS.
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: The session/container ID
+ *     responses:
+ *       200:
+ *         description: Session metrics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SessionMetrics'
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Session not found, expired or owned by another user
+ *
+ * /api/admin/sessions/metrics:
+ *   get:
+ *     summary: Get resource usage of all active sessions
+ *     description: Totals of the current samples plus the metrics of every session. Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Session metrics retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin role required
+ *
+ * /api/admin/sessions:
+ *   get:
+ *     summary: List every session
+ *     description: All sessions on record, soonest to expire first, with owner, tenant, node, disk and transfer usage and the latest resource sample. Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin role required
+ *
+ * /api/admin/sessions/{containerId}/stop:
+ *   post:
+ *     summary: Force-stop a session
+ *     description: Ends any user's session with the end reason admin-stopped. Needs the admin role.
+ *     tags: [Administration]
+ *     parameters:
+ *       - in: path
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session stopped successfully
+ *       404:
+ *         description: Session not found or already stopped
+ *       500:
+ *         description: The container could not be stopped; the cleanup interval retries
+ *
+ * /api/admin/sessions/stop-all:
+ *   post:
+ *     summary: Force-stop every session
+ *     description: Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: All sessions stopped
+ *       500:
+ *         description: Some containers could not be stopped; data.failed counts them
+ *
+ * /api/admin/sessions/{containerId}/expiry:
+ *   put:
+ *     summary: Set a session's expiry
+ *     description: Moves the expiry earlier or later, without quotas or the profile's maximum duration. Needs the admin role.
+ *     tags: [Administration]
+ *     parameters:
+ *       - in: path
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [expiresAt]
+ *             properties:
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Must be in the future
+ *     responses:
+ *       200:
+ *         description: Session expiry updated successfully
+ *       400:
+ *         description: Validation failed
+ *       404:
+ *         description: Session not found or already expired
+ *
+ * /api/admin/cleanup:
+ *   post:
+ *     summary: Remove orphaned containers now
+ *     description: Runs the cleanup that otherwise runs every SESSION_CLEANUP_INTERVAL_MS. Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Cleanup completed; data.orphanedContainers counts the removed containers
+ *
+ * /api/admin/admission:
+ *   get:
+ *     summary: Get the admission status of this instance
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Whether new sessions are admitted, with active, starting and queued counts
+ *
+ * /api/admin/admission/drain:
+ *   post:
+ *     summary: Stop admitting new sessions on this instance
+ *     description: start-session answers 503 with Retry-After until admission is resumed. Clients of running sessions receive a maintenance event; the sessions carry on and queued requests keep waiting. Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Session admission drained
+ *
+ * /api/admin/admission/resume:
+ *   post:
+ *     summary: Admit new sessions again
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: Session admission resumed
+ *
+ * /api/admin/health:
+ *   get:
+ *     summary: Get Docker node and Redis health
+ *     description: Per-node Docker details, the Redis connection and the admission status. Needs the admin role.
+ *     tags: [Administration]
+ *     responses:
+ *       200:
+ *         description: All systems healthy
+ *       503:
+ *         description: Docker or Redis is unhealthy
+ *
+ * /api/admin/audit:
+ *   get:
+ *     summary: Query the session audit log
+ *     description: The most recent matching audit events (start, stop, extend, expire, cleanup), oldest first. Needs the admin role.
+ *     tags: [Administration]
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         description: Session owner or the user who triggered the action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: containerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [start, stop, extend, expire, cleanup]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *           default: 1000
+ *       - in: query
+ *         name: format
+ *         description: json wraps the events in the usual response; csv and ndjson are downloads
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, ndjson]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Admin role required
+ *
+ * /api/browser/queue/{ticketId}:
+ *   get:
+ *     summary: Poll an admission queue ticket
+ *     description: Returns state (waiting, admitted, failed, expired, cancelled), position and estimatedWaitMs. Tickets that are not polled within ADMISSION_QUEUE_TICKET_TIMEOUT_MS are dropped. Once admitted, statusUrl points at the session start status.
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: ticketId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Queue ticket retrieved successfully
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Unknown ticket, or owned by another user
+ *   delete:
+ *     summary: Leave the admission queue
+ *     tags: [Session Management]
+ *     parameters:
+ *       - in: path
+ *         name: ticketId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Queue ticket cancelled
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Unknown ticket, or owned by another user
+ *       409:
+ *         description: Ticket is no longer waiting
+ *
  * components:
  *   schemas:
+ *     ContainerStats:
+ *       type: object
+ *       properties:
+ *         cpuPercent:
+ *           type: number
+ *         memoryBytes:
+ *           type: integer
+ *         memoryLimitBytes:
+ *           type: integer
+ *         networkRxBytes:
+ *           type: integer
+ *         networkTxBytes:
+ *           type: integer
+ *         blockReadBytes:
+ *           type: integer
+ *         blockWriteBytes:
+ *           type: integer
+ *         pids:
+ *           type: integer
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *     SessionMetrics:
+ *       type: object
+ *       properties:
+ *         containerId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         profile:
+ *           type: string
+ *         node:
+ *           type: string
+ *         current:
+ *           $ref: '#/components/schemas/ContainerStats'
+ *         history:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ContainerStats'
  *     SessionResponse:
  *       type: object
  *       properties:
@@ -276,6 +727,41 @@ app.use('/api/browser', browserRoutes);
  *           type: integer
  *         remainingTimeMs:
  *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [starting, ready]
+ *         userId:
+ *           type: string
+ *         image:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         usage:
+ *           type: object
+ *           description: Latest disk and network usage sample with the session's hard limits (0 = none)
+ *           properties:
+ *             diskBytes:
+ *               type: integer
+ *             downloadBytes:
+ *               type: integer
+ *             networkRxBytes:
+ *               type: integer
+ *             networkTxBytes:
+ *               type: integer
+ *             diskLimitBytes:
+ *               type: integer
+ *             transferLimitBytes:
+ *               type: integer
+ *             timestamp:
+ *               type: string
+ *               format: date-time
+ *         publicBrowserUrl:
+ *           type: string
+ *           description: Browser URL through the proxy, including the access token
+ *         accessToken:
+ *           type: string
+ *           description: Token scoped to this session for the browser proxy
  */
 
 // 404 handler
@@ -294,7 +780,7 @@ app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
   logger.error('Unhandled error', {
     error: error.message,
     stack: error.stack,
-    url: req.url,
+    url: redactUrl(req.url),
     method: req.method,
     ip: req.ip,
     userAgent: req.get('User-Agent'),
@@ -308,15 +794,4 @@ app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
   res.status(500).json(response);
 });
 
-// Graceful shutdown handling
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
-
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
-
 export default app; 
\ No newline at end of file
@@ -1,12 +1,58 @@
+import os from 'os';
 import dotenv from 'dotenv';
-import { AppConfig } from '../types';
+import { ApiKeyConfig, AppConfig, EgressPolicy, NetworkMode, OrphanPolicy, PlacementStrategy, QuotaLimits, RuntimeKind, SessionStoreMode, Ulimit } from '../types';
+import { buildProfiles, ProfileOverride } from './profiles';
+import { buildNodes, NodeOverride } from './nodes';
 
 dotenv.config();
 
+// "default:2,chromium:1" -> { default: 2, chromium: 1 }
+const parseCountsEnv = (name: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const entry of (process.env[name] || '').split(',')) {
+    const [key, value] = entry.split(':').map(part => part.trim());
+    if (key && value && parseInt(value, 10) > 0) {
+      counts[key] = parseInt(value, 10);
+    }
+  }
+  return counts;
+};
+
+const parseJsonEnv = <T>(name: string, fallback: T): T => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`${name} must be valid JSON: ${(error as Error).message}`);
+  }
+};
+
+const parseEnumEnv = <T extends string>(name: string, allowed: readonly T[], fallback: T): T => {
+  const raw = process.env[name] || fallback;
+  if (!allowed.includes(raw as T)) {
+    throw new Error(`${name} must be one of ${allowed.join(', ')}, got "${raw}"`);
+  }
+  return raw as T;
+};
+
+// SIGTERM and SIGINT shut the server down; SIGKILL and SIGSTOP cannot be handled
+const RESERVED_SIGNALS = ['SIGTERM', 'SIGINT', 'SIGKILL', 'SIGSTOP'];
+
+const parseSignalEnv = (name: string, fallback: NodeJS.Signals): NodeJS.Signals => {
+  const raw = process.env[name] || fallback;
+  if (!(raw in os.constants.signals) || RESERVED_SIGNALS.includes(raw)) {
+    throw new Error(`${name} must be a signal other than ${RESERVED_SIGNALS.join(', ')}, got "${raw}"`);
+  }
+  return raw as NodeJS.Signals;
+};
+
 const config: AppConfig = {
   port: parseInt(process.env['PORT'] || '4000', 10),
   host: process.env['HOST'] || '0.0.0.0',
   nodeEnv: process.env['NODE_ENV'] || 'development',
+  instanceId: process.env['INSTANCE_ID'] || os.hostname(),
+  runtime: parseEnumEnv<RuntimeKind>('CONTAINER_RUNTIME', ['docker', 'fake'], 'docker'),
   publicBaseUrl: process.env['PUBLIC_BASE_URL'] || 'http://localhost:8080',
   
   cors: {
@@ -14,9 +60,13 @@ const config: AppConfig = {
   },
   
   security: {
-    jwtSecret: process.env['JWT_SECRET'] || 'your-super-secret-jwt-key-change-in-production',
+    jwtSecret: process.env['JWT_SECRET'] || '',
     jwtExpiresIn: process.env['JWT_EXPIRES_IN'] || '24h',
     bcryptRounds: parseInt(process.env['BCRYPT_ROUNDS'] || '12', 10),
+    authEnabled: process.env['AUTH_ENABLED'] !== 'false',
+    // [{ "id": "ops", "userId": "ops", "hash": "<bcrypt hash of the full key>", "roles": ["admin"] }]
+    apiKeys: parseJsonEnv<ApiKeyConfig[]>('API_KEYS', []),
+    apiKeyCacheTtlMs: parseInt(process.env['API_KEY_CACHE_TTL_MS'] || '300000', 10),
   },
   
   docker: {
@@ -33,6 +83,53 @@ const config: AppConfig = {
       '3000/tcp': [{}],
       '3001/tcp': [{}],
     },
+    containerHost: process.env['DOCKER_CONTAINER_HOST'] || 'host.docker.internal',
+    readiness: {
+      enabled: process.env['READINESS_CHECK_ENABLED'] !== 'false',
+      path: process.env['READINESS_CHECK_PATH'] || '/',
+      timeoutMs: parseInt(process.env['READINESS_TIMEOUT_MS'] || '60000', 10),
+      intervalMs: parseInt(process.env['READINESS_INTERVAL_MS'] || '500', 10),
+    },
+    defaultProfile: process.env['DEFAULT_SESSION_PROFILE'] || 'default',
+    profiles: [],
+    nodes: [],
+    placementStrategy: parseEnumEnv<PlacementStrategy>('PLACEMENT_STRATEGY', ['least-loaded', 'bin-pack'], 'least-loaded'),
+    hardening: {
+      capAdd: (process.env['CONTAINER_CAP_ADD'] ?? 'CHOWN,DAC_OVERRIDE,FOWNER,FSETID,KILL,NET_BIND_SERVICE,SETGID,SETPCAP,SETUID,SYS_CHROOT')
+        .split(',')
+        .map(capability => capability.trim())
+        .filter(Boolean),
+      noNewPrivileges: process.env['CONTAINER_NO_NEW_PRIVILEGES'] !== 'false',
+      seccompProfile: process.env['CONTAINER_SECCOMP_PROFILE'] || 'default',
+      readOnlyRootfs: process.env['CONTAINER_READ_ONLY_ROOTFS'] === 'true',
+      tmpfs: parseJsonEnv<Record<string, string>>('CONTAINER_TMPFS', { '/tmp': 'rw,nosuid,nodev,size=512m' }),
+      pidsLimit: parseInt(process.env['CONTAINER_PIDS_LIMIT'] || '2048', 10),
+      ulimits: parseJsonEnv<Ulimit[]>('CONTAINER_ULIMITS', []),
+      userNamespace: process.env['CONTAINER_USER_NAMESPACE'] === 'true',
+    },
+    limits: {
+      diskSize: process.env['SESSION_DISK_LIMIT'] || '',
+      diskStorageOpt: process.env['SESSION_DISK_STORAGE_OPT'] === 'true',
+      downloadDir: process.env['SESSION_DOWNLOAD_DIR'] || '/config/Downloads',
+      downloadQuota: process.env['SESSION_DOWNLOAD_QUOTA'] || '',
+      egressMbit: parseFloat(process.env['SESSION_EGRESS_MBIT'] || '0'),
+      maxTransfer: process.env['SESSION_MAX_TRANSFER'] || '',
+    },
+    trafficShaperImage: process.env['TRAFFIC_SHAPER_IMAGE'] || 'nicolaka/netshoot:latest',
+    network: {
+      mode: parseEnumEnv<NetworkMode>('CONTAINER_NETWORK_MODE', ['per-session', 'bridge'], 'per-session'),
+      defaultEgress: {
+        policy: parseEnumEnv<EgressPolicy>(
+          'DEFAULT_EGRESS_POLICY', ['allow-all', 'deny-private', 'allowlist', 'none'], 'allow-all'
+        ),
+        allowedDomains: (process.env['DEFAULT_EGRESS_ALLOWED_DOMAINS'] || '')
+          .split(',')
+          .map(domain => domain.trim())
+          .filter(Boolean),
+      },
+      egressProxyPort: parseInt(process.env['EGRESS_PROXY_PORT'] || '3128', 10),
+      egressProxyAlias: process.env['EGRESS_PROXY_ALIAS'] || 'disposable-egress',
+    },
   },
   
   redis: {
@@ -46,9 +143,29 @@ const config: AppConfig = {
     filePath: process.env['LOG_FILE_PATH'] || 'logs/app.log',
   },
   
+  audit: {
+    enabled: process.env['AUDIT_LOG_ENABLED'] !== 'false',
+    filePath: process.env['AUDIT_LOG_FILE'] || 'logs/audit.jsonl',
+  },
+  
+  drain: {
+    retryAfterSeconds: parseInt(process.env['DRAIN_RETRY_AFTER_SECONDS'] || '120', 10),
+    deadlineMs: parseInt(process.env['DRAIN_DEADLINE_MS'] || '0', 10),
+    handoff: process.env['DRAIN_HANDOFF'] !== 'false',
+    signal: parseSignalEnv('DRAIN_SIGNAL', 'SIGUSR2'),
+  },
+  
   monitoring: {
     enabled: process.env['ENABLE_MONITORING'] === 'true',
     port: parseInt(process.env['MONITORING_PORT'] || '4001', 10),
+    metricsToken: process.env['METRICS_TOKEN'] || '',
+  },
+  
+  tracing: {
+    enabled: process.env['TRACING_ENABLED'] === 'true',
+    serviceName: process.env['OTEL_SERVICE_NAME'] || 'disposable-suite',
+    exporterUrl: process.env['OTEL_EXPORTER_OTLP_TRACES_ENDPOINT'] || 'http://localhost:4318/v1/traces',
+    sampleRatio: parseFloat(process.env['TRACING_SAMPLE_RATIO'] || '1'),
   },
   
   sessions: {
@@ -56,7 +173,96 @@ const config: AppConfig = {
     maxSessions: parseInt(process.env['MAX_SESSIONS'] || '10', 10),
     cleanupIntervalMs: parseInt(process.env['SESSION_CLEANUP_INTERVAL_MS'] || '300000', 10),
     persistenceEnabled: process.env['SESSION_PERSISTENCE_ENABLED'] === 'true',
+    stopMaxRetries: parseInt(process.env['SESSION_STOP_MAX_RETRIES'] || '3', 10),
+    stopRetryDelayMs: parseInt(process.env['SESSION_STOP_RETRY_DELAY_MS'] || '1000', 10),
+    // 'redis' shares sessions, expiry and capacity between API replicas
+    storeMode: (process.env['SESSION_STORE_MODE'] === 'redis' ? 'redis' : 'local') as SessionStoreMode,
+    expiryPollIntervalMs: parseInt(process.env['SESSION_EXPIRY_POLL_MS'] || '1000', 10),
+    reapLockMs: parseInt(process.env['SESSION_REAP_LOCK_MS'] || '30000', 10),
+    startLeaseMs: parseInt(process.env['SESSION_START_LEASE_MS'] || '300000', 10),
+    usageCheckIntervalMs: parseInt(process.env['SESSION_USAGE_CHECK_INTERVAL_MS'] || '60000', 10),
+  },
+
+  jobs: {
+    retentionMs: parseInt(process.env['SESSION_JOB_RETENTION_MS'] || '600000', 10),
+  },
+
+  events: {
+    // "300000,60000" -> expiring-soon pushed 5 minutes and 1 minute before expiry
+    warningThresholdsMs: (process.env['SESSION_WARNING_THRESHOLDS_MS'] || '300000,60000')
+      .split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(value => value > 0),
+    heartbeatIntervalMs: parseInt(process.env['SESSION_EVENTS_HEARTBEAT_MS'] || '15000', 10),
+  },
+
+  sessionMetrics: {
+    enabled: process.env['SESSION_METRICS_ENABLED'] !== 'false',
+    historyIntervalMs: parseInt(process.env['SESSION_METRICS_HISTORY_INTERVAL_MS'] || '10000', 10),
+    // 60 samples of 10 seconds: the last 10 minutes
+    historySize: parseInt(process.env['SESSION_METRICS_HISTORY_SIZE'] || '60', 10),
+  },
+
+  queue: {
+    enabled: process.env['ADMISSION_QUEUE_ENABLED'] !== 'false',
+    maxLength: parseInt(process.env['ADMISSION_QUEUE_MAX_LENGTH'] || '50', 10),
+    // Waiting tickets that are not polled for this long are dropped
+    ticketTimeoutMs: parseInt(process.env['ADMISSION_QUEUE_TICKET_TIMEOUT_MS'] || '60000', 10),
+    // The queue is kept in Redis under the instance ID. The hostname fallback
+    // changes whenever the container is recreated, which would orphan it.
+    persistent: Boolean(process.env['INSTANCE_ID']),
+  },
+
+  reconciler: {
+    // 0 only reconciles once at startup
+    intervalMs: parseInt(process.env['RECONCILE_INTERVAL_MS'] || '300000', 10),
+    orphanPolicy: parseEnumEnv<OrphanPolicy>('RECONCILE_ORPHAN_POLICY', ['adopt', 'kill', 'ignore'], 'adopt'),
+    // Containers younger than this may belong to a session that is still starting
+    graceMs: parseInt(process.env['RECONCILE_GRACE_MS'] || '120000', 10),
+  },
+
+  warmPool: {
+    sizes: parseCountsEnv('WARM_POOL_SIZES'),
+    maxIdleMs: parseInt(process.env['WARM_POOL_MAX_IDLE_MS'] || '1800000', 10),
+    refillIntervalMs: parseInt(process.env['WARM_POOL_REFILL_INTERVAL_MS'] || '30000', 10),
+  },
+
+  quotas: {
+    user: {
+      maxConcurrentSessions: parseInt(process.env['QUOTA_USER_MAX_CONCURRENT_SESSIONS'] || '3', 10),
+      maxSessionMinutesPerDay: parseInt(process.env['QUOTA_USER_MAX_SESSION_MINUTES_PER_DAY'] || '0', 10),
+      maxExtensions: parseInt(process.env['QUOTA_USER_MAX_EXTENSIONS'] || '0', 10),
+    },
+    tenant: {
+      maxConcurrentSessions: parseInt(process.env['QUOTA_TENANT_MAX_CONCURRENT_SESSIONS'] || '0', 10),
+      maxSessionMinutesPerDay: parseInt(process.env['QUOTA_TENANT_MAX_SESSION_MINUTES_PER_DAY'] || '0', 10),
+      maxExtensions: parseInt(process.env['QUOTA_TENANT_MAX_EXTENSIONS'] || '0', 10),
+    },
+    overrides: parseJsonEnv<Record<string, Partial<QuotaLimits>>>('QUOTA_OVERRIDES', {}),
   },
 };
 
+// Tokens signed with a missing or published secret can be forged by anyone,
+// admin role included
+const PLACEHOLDER_JWT_SECRET = 'your-super-secret-jwt-key-change-in-production';
+if (config.security.authEnabled && config.nodeEnv !== 'test' &&
+    (!config.security.jwtSecret || config.security.jwtSecret === PLACEHOLDER_JWT_SECRET)) {
+  throw new Error('JWT_SECRET must be set to a private value when AUTH_ENABLED is not false');
+}
+
+config.docker.profiles = buildProfiles(
+  config.docker,
+  parseJsonEnv<ProfileOverride[]>('SESSION_PROFILES', [])
+);
+
+// [{ "name": "worker-1", "host": "10.0.0.11", "port": 2376, "protocol": "https", "caPath": "...", "capacity": 20 }]
+config.docker.nodes = buildNodes(
+  {
+    containerHost: config.docker.containerHost,
+    capacity: config.sessions.maxSessions,
+    ...(process.env['DOCKER_API_CONTAINER'] ? { apiContainer: process.env['DOCKER_API_CONTAINER'] } : {}),
+  },
+  parseJsonEnv<NodeOverride[]>('DOCKER_NODES', [])
+);
+
 export default config; 
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { DockerNodeConfig } from '../types';
+
+export type NodeOverride = Partial<DockerNodeConfig> & { name: string };
+
+type NodeDefaults = Pick<DockerNodeConfig, 'containerHost' | 'capacity' | 'apiContainer'>;
+
+// The daemon this API has always used: Docker Desktop's default connection on
+// Windows, the local socket everywhere else.
+const localNode = (defaults: NodeDefaults): DockerNodeConfig => ({
+  name: 'local',
+  ...(process.platform === 'win32' ? {} : { socketPath: '/var/run/docker.sock' }),
+  labels: {},
+  ...defaults,
+});
+
+// Without DOCKER_NODES there is a single local node, so existing deployments
+// keep their behaviour. Remote nodes default to reaching published ports on
+// the host they are connected through.
+export const buildNodes = (defaults: NodeDefaults, overrides: NodeOverride[]): DockerNodeConfig[] => {
+  if (overrides.length === 0) {
+    return [localNode(defaults)];
+  }
+
+  // DOCKER_API_CONTAINER only describes the local daemon
+  const { apiContainer: _apiContainer, ...remoteDefaults } = defaults;
+  return overrides.map(override => ({
+    labels: {},
+    ...remoteDefaults,
+    ...(override.host ? { containerHost: override.host } : {}),
+    ...override,
+  } as DockerNodeConfig));
+};
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { SessionProfile } from '../types';
+
+type ProfileBase = Pick<SessionProfile, 'image' | 'environment' | 'memoryLimit' | 'cpuLimit' | 'shmSize'>;
+
+export type ProfileOverride = Partial<SessionProfile> & { name: string };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Built-in catalog. The "default" profile runs BROWSER_IMAGE with the
+// CONTAINER_* limits so existing deployments keep their behaviour.
+const builtInProfiles = (base: ProfileBase): SessionProfile[] => [
+  {
+    name: 'default',
+    displayName: 'Default browser',
+    description: 'The browser image configured with BROWSER_IMAGE',
+    ports: ['3000/tcp', '3001/tcp'],
+    maxDurationMs: HOUR_MS,
+    ...base,
+  },
+  {
+    ...base,
+    name: 'firefox',
+    displayName: 'Firefox',
+    image: 'linuxserver/firefox:latest',
+    ports: ['3000/tcp', '3001/tcp'],
+    maxDurationMs: HOUR_MS,
+  },
+  {
+    ...base,
+    name: 'chromium',
+    displayName: 'Chromium',
+    image: 'linuxserver/chromium:latest',
+    ports: ['3000/tcp', '3001/tcp'],
+    maxDurationMs: HOUR_MS,
+  },
+  {
+    ...base,
+    name: 'tor',
+    displayName: 'Tor Browser',
+    image: 'domistyle/tor-browser:latest',
+    ports: ['5800/tcp'],
+    environment: ['TZ=Etc/UTC'],
+    maxDurationMs: HOUR_MS,
+  },
+  {
+    ...base,
+    name: 'desktop',
+    displayName: 'Linux desktop',
+    description: 'Full XFCE desktop with a browser and basic tools',
+    image: 'linuxserver/webtop:latest',
+    ports: ['3000/tcp', '3001/tcp'],
+    memoryLimit: '4g',
+    cpuLimit: 2,
+    shmSize: 2 * 1024 * 1024 * 1024,
+    maxDurationMs: HOUR_MS,
+  },
+];
+
+// SESSION_PROFILES entries replace fields of a built-in profile with the same
+// name, or add a new profile on top of the default sizing.
+export const buildProfiles = (docker: ProfileBase, overrides: ProfileOverride[]): SessionProfile[] => {
+  const base: ProfileBase = {
+    image: docker.image,
+    environment: docker.environment,
+    memoryLimit: docker.memoryLimit,
+    cpuLimit: docker.cpuLimit,
+    shmSize: docker.shmSize,
+  };
+  const profiles = new Map(builtInProfiles(base).map(profile => [profile.name, profile]));
+
+  for (const override of overrides) {
+    const existing = profiles.get(override.name);
+    profiles.set(override.name, {
+      displayName: override.name,
+      ports: ['3000/tcp'],
+      maxDurationMs: HOUR_MS,
+      ...base,
+      ...existing,
+      ...override,
+    } as SessionProfile);
+  }
+
+  return Array.from(profiles.values());
+};
@@ -0,0 +1,56 @@
+import { registerInstrumentations } from '@opentelemetry/instrumentation';
+import { HttpInstrumentation } from '@opentelemetry/instrumentation-http';
+import { ExpressInstrumentation } from '@opentelemetry/instrumentation-express';
+import { IORedisInstrumentation } from '@opentelemetry/instrumentation-ioredis';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import config from './config';
+import { ACCESS_TOKEN_PARAM } from './utils/credentials';
+
+// Probes and scrapes would drown out the traces worth looking at
+const UNTRACED_PATHS = ['/health', '/metrics'];
+
+let provider: NodeTracerProvider | null = null;
+
+// Has to run before http, express and ioredis are first required so the
+// instrumentations can patch them, which is why server.ts imports this first.
+// The provider propagates W3C trace context, so incoming traceparent headers
+// are continued and proxied requests carry the trace on to the container.
+if (config.tracing.enabled) {
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.tracing.serviceName,
+      'service.instance.id': config.instanceId,
+    }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.tracing.sampleRatio) }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter({ url: config.tracing.exporterUrl }))],
+  });
+  provider.register();
+
+  registerInstrumentations({
+    tracerProvider: provider,
+    instrumentations: [
+      new HttpInstrumentation({
+        ignoreIncomingRequestHook: (req) => UNTRACED_PATHS.some(path => req.url?.startsWith(path)),
+        redactedQueryParamsServer: [ACCESS_TOKEN_PARAM],
+      }),
+      new ExpressInstrumentation(),
+      new IORedisInstrumentation(),
+    ],
+  });
+}
+
+// Flushes spans that are still buffered
+export const shutdownTracing = async (): Promise<void> => {
+  if (provider) {
+    await provider.shutdown();
+    provider = null;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import authService from '../services/authService';
+import sessionManager from '../services/sessionManager';
+import config from '../config';
+import logger from '../utils/logger';
+import { ACCESS_TOKEN_PARAM, redactUrl, SESSION_COOKIE_PREFIX } from '../utils/credentials';
+import { ActionClient, ApiResponse, AuthIdentity } from '../types';
+
+const sendAuthError = (res: Response, statusCode: 401 | 403, error: string): void => {
+  if (statusCode === 401) {
+    res.set('WWW-Authenticate', 'Bearer');
+  }
+  const response: ApiResponse = { success: false, error };
+  res.status(statusCode).json(response);
+};
+
+const resolveIdentity = async (req: Request): Promise<AuthIdentity | null | undefined> => {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authService.verifyToken(authorization.slice('Bearer '.length).trim());
+  }
+
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) {
+    return authService.verifyApiKey(apiKey);
+  }
+
+  // No credentials presented
+  return undefined;
+};
+
+const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+};
+
+// Admins and deployments without auth see everything
+export const canAccessOwnedBy = (identity: AuthIdentity | undefined, ownerId: string): boolean => {
+  return !config.security.authEnabled || authService.hasRole(identity, 'admin') || ownerId === identity?.userId;
+};
+
+export const canAccessSession = (identity: AuthIdentity | undefined, containerId: string): boolean => {
+  const owner = sessionManager.getSessionOwner(containerId);
+  // Unknown sessions are left to the handler (404 or idempotent stop)
+  return owner === undefined || canAccessOwnedBy(identity, owner);
+};
+
+// Who is behind a request, for the audit log
+export const getActionClient = (req: Request): ActionClient => {
+  const userAgent = req.get('User-Agent');
+  return {
+    ...(req.auth ? { userId: req.auth.userId } : {}),
+    ...(req.ip ? { ip: req.ip } : {}),
+    ...(userAgent ? { userAgent } : {}),
+  };
+};
+
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!config.security.authEnabled) {
+    req.auth = authService.getAnonymousIdentity();
+    next();
+    return;
+  }
+
+  try {
+    const identity = await resolveIdentity(req);
+
+    if (!identity) {
+      logger.warn(identity === undefined ? 'Missing credentials' : 'Invalid credentials', {
+        url: redactUrl(req.originalUrl),
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      sendAuthError(res, 401, identity === undefined ? 'Authentication required' : 'Invalid or expired credentials');
+      return;
+    }
+
+    req.auth = identity;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requireSessionOwner = (location: 'body' | 'query' | 'params') => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const containerId = (req[location] as Record<string, unknown> | undefined)?.['containerId'];
+
+    if (typeof containerId === 'string' && !canAccessSession(req.auth, containerId.trim())) {
+      logger.warn('Session access denied', {
+        containerId,
+        userId: req.auth?.userId,
+        url: redactUrl(req.originalUrl),
+        ip: req.ip,
+      });
+      sendAuthError(res, 403, 'You do not have access to this session');
+      return;
+    }
+
+    next();
+  };
+};
+
+// Without authentication everyone acts as an admin, as in canAccessOwnedBy
+export const requireRole = (role: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (config.security.authEnabled && !authService.hasRole(req.auth, role)) {
+      logger.warn('Role required', {
+        role,
+        userId: req.auth?.userId,
+        url: redactUrl(req.originalUrl),
+        ip: req.ip,
+      });
+      sendAuthError(res, 403, `The ${role} role is required`);
+      return;
+    }
+
+    next();
+  };
+};
+
+// METRICS_TOKEN as a bearer token, when one is configured
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = Buffer.from(config.monitoring.metricsToken);
+  if (expected.length === 0) {
+    next();
+    return;
+  }
+
+  const authorization = req.get('Authorization') || '';
+  const presented = Buffer.from(authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '');
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    logger.warn('Invalid metrics token', { ip: req.ip });
+    sendAuthError(res, 401, 'Invalid metrics token');
+    return;
+  }
+
+  next();
+};
+
+// The browser iframe and EventSource cannot send headers, so besides regular
+// credentials the proxy and the session event stream accept the session access
+// token from start-session, either as an
+// `access_token` query parameter (exchanged for a cookie) or the cookie itself.
+// proxyToBrowser strips all of them before forwarding.
+export const authorizeProxy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!config.security.authEnabled) {
+    next();
+    return;
+  }
+
+  const containerId = req.params['containerId'] || '';
+  const cookieName = `${SESSION_COOKIE_PREFIX}${containerId.slice(0, 12)}`;
+
+  try {
+    const queryToken = typeof req.query[ACCESS_TOKEN_PARAM] === 'string' ? req.query[ACCESS_TOKEN_PARAM] : undefined;
+    const cookieToken = parseCookies(req.get('Cookie'))[cookieName];
+
+    for (const token of [queryToken, cookieToken]) {
+      if (!token) continue;
+      const userId = authService.verifySessionAccessToken(token, containerId);
+      if (userId && sessionManager.getSessionOwner(containerId) === userId) {
+        if (token === queryToken) {
+          res.cookie(cookieName, token, {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: req.secure,
+          });
+        }
+        next();
+        return;
+      }
+    }
+
+    const identity = await resolveIdentity(req);
+    if (!identity) {
+      sendAuthError(res, 401, 'Authentication required');
+      return;
+    }
+    if (!canAccessSession(identity, containerId)) {
+      sendAuthError(res, 403, 'You do not have access to this session');
+      return;
+    }
+
+    req.auth = identity;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
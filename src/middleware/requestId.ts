@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { requestContext } from '../utils/requestContext';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client-supplied IDs end up in logs, so only plain tokens are accepted
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Accepts the caller's X-Request-Id or generates one, echoes it in the
+// response header and in every JSON body, and makes it available to the
+// logger for the rest of the request
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+
+  req.requestId = id;
+  // Proxied requests pass it on to the session container
+  req.headers[REQUEST_ID_HEADER.toLowerCase()] = id;
+  res.set(REQUEST_ID_HEADER, id);
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    const isObject = typeof body === 'object' && body !== null && !Array.isArray(body);
+    return json(isObject ? { ...body, requestId: id } : body);
+  };
+
+  requestContext.run({ requestId: id }, next);
+};
\ No newline at end of file
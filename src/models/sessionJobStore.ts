@@ -0,0 +1,111 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { SessionJob, SessionJobState } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+
+const FINAL_STATES: SessionJobState[] = ['ready', 'failed'];
+
+// Asynchronous start-session jobs. Finished jobs stay queryable for
+// config.jobs.retentionMs; Redis keeps them visible across restarts.
+class SessionJobStore {
+  private jobs: Map<string, SessionJob> = new Map();
+  private redis: Redis | null;
+  private cleanupInterval: NodeJS.Timeout;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.redis = createRedisClient('session jobs');
+    this.loaded = this.failInterruptedJobs();
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupFinishedJobs();
+    }, Math.max(config.jobs.retentionMs, 60000));
+  }
+
+  public createJob(userId: string, profile: string): SessionJob {
+    const now = new Date().toISOString();
+    const job: SessionJob = {
+      id: uuidv4(),
+      state: 'queued',
+      userId,
+      profile,
+      instanceId: config.instanceId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.persistJob(job);
+    logger.info('Session job created', { jobId: job.id, userId, profile });
+    return job;
+  }
+
+  public updateJob(id: string, update: Partial<Pick<SessionJob, 'state' | 'containerId' | 'error'>>): SessionJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    Object.assign(job, update, { updatedAt: new Date().toISOString() });
+    this.persistJob(job);
+    logger.info('Session job updated', { jobId: id, ...update });
+    return job;
+  }
+
+  public async getJob(id: string): Promise<SessionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (job || !this.redis) return job;
+
+    try {
+      await this.loaded;
+      const data = await this.redis.get(`session-job:${id}`);
+      return data ? JSON.parse(data) as SessionJob : undefined;
+    } catch (error) {
+      logger.error('Failed to load session job from Redis', { jobId: id, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  public shutdown(): void {
+    clearInterval(this.cleanupInterval);
+  }
+
+  // The starts this instance had in progress died with the previous process,
+  // so their jobs would never finish otherwise
+  private async failInterruptedJobs(): Promise<void> {
+    if (!this.redis) return;
+
+    try {
+      for (const key of await this.redis.keys('session-job:*')) {
+        const data = await this.redis.get(key);
+        const job = data ? JSON.parse(data) as SessionJob : null;
+        if (!job || job.instanceId !== config.instanceId || FINAL_STATES.includes(job.state) || this.jobs.has(job.id)) {
+          continue;
+        }
+        logger.warn('Failing session job interrupted by a restart', { jobId: job.id, state: job.state });
+        this.persistJob({ ...job, state: 'failed', error: 'interrupted', updatedAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      logger.error('Failed to check for interrupted session jobs', { error: (error as Error).message });
+    }
+  }
+
+  private persistJob(job: SessionJob): void {
+    if (!this.redis) return;
+
+    const ttlSeconds = Math.ceil((config.jobs.retentionMs + config.sessions.defaultDurationMs) / 1000);
+    this.redis.setex(`session-job:${job.id}`, ttlSeconds, JSON.stringify(job)).catch((error: Error) => {
+      logger.error('Failed to persist session job', { jobId: job.id, error: error.message });
+    });
+  }
+
+  private cleanupFinishedJobs(): void {
+    const cutoff = Date.now() - config.jobs.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (FINAL_STATES.includes(job.state) && Date.parse(job.updatedAt) <= cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export default new SessionJobStore();
@@ -1,20 +1,87 @@
+import { EventEmitter } from 'events';
 import Redis from 'ioredis';
-import { Session } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Session, SessionDetails, SessionEndReason, SessionStatus, StoredSession } from '../types';
 import config from '../config';
 import logger from '../utils/logger';
 
-class SessionStore {
+const EXPIRY_KEY = 'session-expiry';
+const STARTING_KEY = 'session-starting';
+const POOL_KEY = 'warm-pool-idle';
+const LOCK_PREFIX = 'session-lock:';
+const CLAIM_PREFIX = 'pool-claim:';
+const CHANGES_CHANNEL = 'session-changes';
+
+// Takes a MAX_SESSIONS slot for a starting session if sessions, other
+// unexpired start leases and idle warm pool containers leave room. The calling
+// instance's own idle containers only count if ARGV[6] is 1; otherwise it can
+// hand them out or evict them itself.
+const CLAIM_START_LEASE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+local used = redis.call('ZCARD', KEYS[1]) + redis.call('ZCARD', KEYS[2])
+local own = ARGV[5] .. ':'
+for _, member in ipairs(redis.call('ZRANGE', KEYS[3], 0, -1)) do
+  if ARGV[6] == '1' or string.sub(member, 1, string.len(own)) ~= own then
+    used = used + 1
+  end
+end
+if used >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[4])
+return 1
+`;
+
+interface SessionChange {
+  instanceId: string;
+  containerId: string;
+  type: 'upsert' | 'remove';
+  extended?: boolean;
+  reason?: SessionEndReason;
+}
+
+// Emits 'expired' with the Session when its time is up. The store only owns the
+// record; tearing down the container is up to the listener (SessionManager).
+// Lifecycle events for clients: 'expiring-soon' (session, remainingMs),
+// 'extended' (session) and 'removed' (session, reason).
+//
+// In redis store mode Redis is authoritative: every write is published on
+// CHANGES_CHANNEL and applied to the in-memory replica of every instance, and
+// expiry comes from a shared sorted set that instances poll, taking a lock
+// per session so only one of them reaps it.
+class SessionStore extends EventEmitter {
   private sessions: Map<string, Session> = new Map();
+  private warningTimers: Map<string, NodeJS.Timeout[]> = new Map();
   private redis: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private distributed = false;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private expiryPollInterval: NodeJS.Timeout | null = null;
+  private loaded: Promise<void>;
+  private closed = false;
+  private poolClaims: Map<string, { labels: Record<string, string>; expiresAt: number }> = new Map();
 
   constructor() {
-    this.initializeRedis();
+    super();
+    this.loaded = this.initializeRedis();
     this.startCleanupInterval();
   }
 
+  // Resolves once sessions persisted by a previous run are back in memory
+  public whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  public isDistributed(): boolean {
+    return this.distributed;
+  }
+
   private async initializeRedis(): Promise<void> {
     if (!config.sessions.persistenceEnabled) {
+      if (config.sessions.storeMode === 'redis') {
+        logger.warn('SESSION_STORE_MODE=redis needs SESSION_PERSISTENCE_ENABLED=true, falling back to local mode');
+      }
       logger.info('Session persistence disabled, using in-memory storage only');
       return;
     }
@@ -39,13 +106,96 @@ class SessionStore {
       });
 
       await this.redis.connect();
+      if (config.sessions.storeMode === 'redis') {
+        // Subscribe before loading so no change falls between the two
+        await this.startReplication(this.redis);
+      }
       await this.loadSessionsFromRedis();
+      if (this.distributed) {
+        this.startExpiryPolling();
+      }
     } catch (error) {
       logger.error('Failed to initialize Redis', { error: (error as Error).message });
       this.redis = null;
     }
   }
 
+  private async startReplication(redis: Redis): Promise<void> {
+    this.subscriber = redis.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      this.applyRemoteChange(message).catch((error: Error) => {
+        logger.error('Failed to apply session change', { error: error.message });
+      });
+    });
+    await this.subscriber.subscribe(CHANGES_CHANNEL);
+
+    this.distributed = true;
+    logger.info('Session store running in redis mode', { instanceId: config.instanceId });
+  }
+
+  private async applyRemoteChange(message: string): Promise<void> {
+    let change: SessionChange;
+    try {
+      change = JSON.parse(message) as SessionChange;
+    } catch (error) {
+      change = {} as SessionChange;
+    }
+    if (typeof change?.containerId !== 'string' || typeof change.instanceId !== 'string') {
+      logger.warn('Ignoring malformed session change', { payload: message.slice(0, 200) });
+      return;
+    }
+    if (change.instanceId === config.instanceId) return;
+
+    const { containerId } = change;
+    if (change.type === 'remove') {
+      const session = this.sessions.get(containerId);
+      if (!session) return;
+
+      this.clearWarnings(containerId);
+      this.sessions.delete(containerId);
+      this.emit('removed', session, change.reason || session.endReason || 'expired');
+      return;
+    }
+
+    const stored = await this.fetchStoredSession(containerId);
+    // Changes still in flight at shutdown would arm timers nobody clears
+    if (!stored || this.closed) return;
+
+    const previous = this.sessions.get(containerId);
+    const session: Session = { ...stored };
+    this.sessions.set(containerId, session);
+
+    if (session.endReason) {
+      this.clearWarnings(containerId);
+    } else if (!previous || previous.expiresAt !== session.expiresAt) {
+      this.scheduleWarnings(containerId, session.expiresAt - Date.now());
+    }
+    if (change.extended) {
+      this.emit('extended', session);
+    }
+  }
+
+  private async fetchStoredSession(containerId: string): Promise<StoredSession | null> {
+    if (!this.redis) return null;
+
+    try {
+      const data = await this.redis.get(`session:${containerId}`);
+      return data ? JSON.parse(data) as StoredSession : null;
+    } catch (error) {
+      logger.error('Failed to fetch session from Redis', {
+        containerId,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private publishChange(pipeline: ReturnType<Redis['multi']>, change: Omit<SessionChange, 'instanceId'>): void {
+    if (this.distributed) {
+      pipeline.publish(CHANGES_CHANNEL, JSON.stringify({ ...change, instanceId: config.instanceId }));
+    }
+  }
+
   private async loadSessionsFromRedis(): Promise<void> {
     if (!this.redis) return;
 
@@ -54,12 +204,22 @@ class SessionStore {
       for (const key of sessionKeys) {
         const sessionData = await this.redis.get(key);
         if (sessionData) {
-          const session: Session = JSON.parse(sessionData);
-          // Only load sessions that haven't expired
-          if (session.expiresAt > Date.now()) {
-            this.sessions.set(session.containerId, session);
-          } else {
-            await this.redis.del(key);
+          const stored: StoredSession = JSON.parse(sessionData);
+          const remainingMs = Math.max(0, stored.expiresAt - Date.now());
+          // Sessions that ran out while we were down expire right away, so
+          // their containers are torn down like any other expired session
+          const timer = this.scheduleExpiry(stored.containerId, remainingMs);
+          const session: Session = {
+            ...stored,
+            ...(timer ? { timer } : {}),
+          };
+          this.sessions.set(session.containerId, session);
+          if (!session.endReason) {
+            this.scheduleWarnings(session.containerId, remainingMs);
+          }
+          if (this.distributed) {
+            // Records written in local mode have no schedule entry yet
+            await this.redis.zadd(EXPIRY_KEY, 'NX', stored.expiresAt, stored.containerId);
           }
         }
       }
@@ -69,12 +229,26 @@ class SessionStore {
     }
   }
 
-  private async persistSession(session: Session): Promise<void> {
+  private async persistSession(session: Session, extended = false): Promise<void> {
     if (!this.redis) return;
 
     try {
+      const { timer, ...stored } = session;
       const key = `session:${session.containerId}`;
-      await this.redis.setex(key, Math.ceil((session.expiresAt - Date.now()) / 1000), JSON.stringify(session));
+      // Ending sessions are kept until their teardown succeeds; in redis mode
+      // the expiry schedule, not the key TTL, decides when a session ends
+      const ttlSeconds = this.distributed || session.endReason
+        ? Math.max(Math.ceil((session.expiresAt - Date.now()) / 1000), 0) + 3600
+        : Math.max(Math.ceil((session.expiresAt - Date.now()) / 1000), 1);
+
+      // One round trip, so the record, its schedule entry and the change
+      // notification reach Redis in order
+      const pipeline = this.redis.multi().setex(key, ttlSeconds, JSON.stringify(stored satisfies StoredSession));
+      if (this.distributed) {
+        pipeline.zadd(EXPIRY_KEY, session.expiresAt, session.containerId);
+      }
+      this.publishChange(pipeline, { containerId: session.containerId, type: 'upsert', extended });
+      await pipeline.exec();
     } catch (error) {
       logger.error('Failed to persist session', { 
         containerId: session.containerId, 
@@ -83,11 +257,16 @@ class SessionStore {
     }
   }
 
-  private async removeSessionFromRedis(containerId: string): Promise<void> {
+  private async removeSessionFromRedis(containerId: string, reason: SessionEndReason): Promise<void> {
     if (!this.redis) return;
 
     try {
-      await this.redis.del(`session:${containerId}`);
+      const pipeline = this.redis.multi().del(`session:${containerId}`);
+      if (this.distributed) {
+        pipeline.zrem(EXPIRY_KEY, containerId).del(`${LOCK_PREFIX}${containerId}`);
+      }
+      this.publishChange(pipeline, { containerId, type: 'remove', reason });
+      await pipeline.exec();
     } catch (error) {
       logger.error('Failed to remove session from Redis', { 
         containerId, 
@@ -96,28 +275,40 @@ class SessionStore {
     }
   }
 
-  public createSession(containerId: string, hostPort: number, durationMs: number, userId?: string): Session {
+  public createSession(containerId: string, hostPort: number, durationMs: number, details: SessionDetails = {}): Session {
+    const { status, userId, tenantId, profile, image, reservationId, node, host, metadata } = details;
     const expiresAt = Date.now() + durationMs;
+    const timer = this.scheduleExpiry(containerId, durationMs);
     const session: Session = {
       containerId,
       hostPort,
       expiresAt,
-      timer: setTimeout(() => {
-        this.removeSession(containerId);
-      }, durationMs),
+      ...(timer ? { timer } : {}),
+      status: status || 'ready',
       ...(userId ? { userId } : {}),
+      ...(tenantId ? { tenantId } : {}),
+      ...(profile ? { profile } : {}),
+      ...(image ? { image } : {}),
+      ...(reservationId ? { reservationId } : {}),
+      ...(node ? { node } : {}),
+      ...(host ? { host } : {}),
       metadata: {
         createdAt: new Date().toISOString(),
         createdBy: userId || 'anonymous',
+        ...metadata,
       },
     };
     this.sessions.set(containerId, session);
+    this.scheduleWarnings(containerId, durationMs);
     this.persistSession(session);
     logger.info('Session created', {
       containerId,
       hostPort,
       durationMs,
       userId,
+      profile,
+      image,
+      node,
       expiresAt: new Date(expiresAt).toISOString(),
     });
     return session;
@@ -131,44 +322,267 @@ class SessionStore {
     return Array.from(this.sessions.values());
   }
 
-  public getActiveSessionsCount(): number {
+  // Sessions of all instances: in redis store mode the shared expiry schedule
+  // is authoritative, since the local copy gets other instances' changes late
+  public async getActiveSessionsCount(): Promise<number> {
+    if (!this.distributed || !this.redis) return this.sessions.size;
+
+    try {
+      return await this.redis.zcard(EXPIRY_KEY);
+    } catch (error) {
+      logger.error('Failed to count sessions in Redis', { error: (error as Error).message });
+      return this.sessions.size;
+    }
+  }
+
+  // Sessions in this instance's copy, for decisions that cannot wait for Redis
+  public getLocalSessionsCount(): number {
     return this.sessions.size;
   }
 
-  public async removeSession(containerId: string): Promise<boolean> {
+  public async removeSession(containerId: string, reason?: SessionEndReason): Promise<boolean> {
     const session = this.sessions.get(containerId);
     if (!session) return false;
 
+    const endReason = reason || session.endReason || 'expired';
     clearTimeout(session.timer);
+    this.clearWarnings(containerId);
     this.sessions.delete(containerId);
-    await this.removeSessionFromRedis(containerId);
+    await this.removeSessionFromRedis(containerId, endReason);
+
+    logger.info('Session removed', {
+      containerId,
+      userId: session.userId,
+      reason: endReason,
+    });
+    this.emit('removed', session, endReason);
+    return true;
+  }
+
+  public setSessionStatus(containerId: string, status: SessionStatus): boolean {
+    const session = this.sessions.get(containerId);
+    if (!session) return false;
+
+    session.status = status;
+    this.persistSession(session);
+
+    logger.info('Session status updated', { containerId, status });
+    return true;
+  }
+
+  // Keeps a session whose container could not be stopped, but takes it out of
+  // the active set so the cleanup interval (in redis mode: the expiry poll,
+  // once the reap lock lapses) retries the teardown.
+  public markSessionEnding(containerId: string, reason: SessionEndReason): boolean {
+    const session = this.sessions.get(containerId);
+    if (!session) return false;
+
+    clearTimeout(session.timer);
+    this.clearWarnings(containerId);
+    session.endReason = reason;
+    session.expiresAt = Math.min(session.expiresAt, Date.now());
+    this.persistSession(session);
 
-    logger.info('Session removed', { containerId, userId: session.userId });
+    logger.warn('Session marked as ending', { containerId, reason });
     return true;
   }
 
+  private expireSession(containerId: string): void {
+    const session = this.sessions.get(containerId);
+    if (!session) return;
+
+    if (this.listenerCount('expired') === 0) {
+      this.removeSession(containerId, 'expired');
+      return;
+    }
+
+    this.emit('expired', session);
+  }
+
   public updateSessionExpiry(containerId: string, newExpiresAt: number): boolean {
     const session = this.sessions.get(containerId);
     if (!session) return false;
 
     clearTimeout(session.timer);
     session.expiresAt = newExpiresAt;
-    session.timer = setTimeout(() => {
-      this.removeSession(containerId);
-    }, newExpiresAt - Date.now());
+    const timer = this.scheduleExpiry(containerId, newExpiresAt - Date.now());
+    if (timer) {
+      session.timer = timer;
+    }
+    this.scheduleWarnings(containerId, newExpiresAt - Date.now());
 
-    this.persistSession(session);
+    this.persistSession(session, true);
 
     logger.info('Session expiry updated', {
       containerId,
       newExpiresAt: new Date(newExpiresAt).toISOString(),
     });
 
+    this.emit('extended', session);
     return true;
   }
 
-  public getRemainingTime(containerId: string): number {
-    const session = this.sessions.get(containerId);
+  // Redis mode has no local expiry timers; see pollExpiredSessions
+  private scheduleExpiry(containerId: string, delayMs: number): NodeJS.Timeout | undefined {
+    if (this.distributed) return undefined;
+
+    return setTimeout(() => {
+      this.expireSession(containerId);
+    }, delayMs);
+  }
+
+  private startExpiryPolling(): void {
+    this.expiryPollInterval = setInterval(() => {
+      this.pollExpiredSessions();
+    }, config.sessions.expiryPollIntervalMs);
+  }
+
+  // Every instance polls the shared schedule; the lock makes sure only one of
+  // them hands a session to its SessionManager. The lock is not released on
+  // success (the record is gone), and lapses if that instance dies mid-teardown.
+  private async pollExpiredSessions(): Promise<void> {
+    if (!this.redis) return;
+
+    try {
+      const due = await this.redis.zrangebyscore(EXPIRY_KEY, '-inf', Date.now(), 'LIMIT', 0, 20);
+      for (const containerId of due) {
+        const locked = await this.redis.set(
+          `${LOCK_PREFIX}${containerId}`,
+          config.instanceId,
+          'PX',
+          config.sessions.reapLockMs,
+          'NX'
+        );
+        if (locked !== 'OK') continue;
+
+        if (!this.sessions.has(containerId)) {
+          const stored = await this.fetchStoredSession(containerId);
+          if (!stored) {
+            // Schedule entry without a record
+            await this.redis.zrem(EXPIRY_KEY, containerId);
+            continue;
+          }
+          this.sessions.set(containerId, { ...stored });
+        }
+
+        logger.info('Reaping expired session', { containerId, instanceId: config.instanceId });
+        this.expireSession(containerId);
+      }
+    } catch (error) {
+      logger.error('Failed to poll session expiry schedule', { error: (error as Error).message });
+    }
+  }
+
+  // Reserves a MAX_SESSIONS slot across all instances for a session that is
+  // being started; returns null if none is free. Warm pool refills count this
+  // instance's idle containers too. Local mode has nothing to share.
+  public async claimStartLease(maxSessions: number, countOwnPool = false): Promise<string | null> {
+    const leaseId = `${config.instanceId}:${uuidv4()}`;
+    if (!this.distributed || !this.redis) return leaseId;
+
+    const now = Date.now();
+    const claimed = await this.redis.eval(
+      CLAIM_START_LEASE_SCRIPT,
+      3,
+      EXPIRY_KEY,
+      STARTING_KEY,
+      POOL_KEY,
+      now,
+      maxSessions,
+      now + config.sessions.startLeaseMs,
+      leaseId,
+      config.instanceId,
+      countOwnPool ? '1' : '0'
+    );
+    return claimed === 1 ? leaseId : null;
+  }
+
+  public releaseStartLease(leaseId: string): void {
+    if (!this.distributed || !this.redis) return;
+
+    this.redis.zrem(STARTING_KEY, leaseId).catch((error: Error) => {
+      logger.error('Failed to release start lease', { leaseId, error: error.message });
+    });
+  }
+
+  // Idle warm pool containers hold MAX_SESSIONS slots as well. Entries lapse
+  // unless the pool refreshes them, so the pool of a dead instance stops counting.
+  public trackPooledContainer(containerId: string): void {
+    if (!this.distributed || !this.redis) return;
+
+    const deadline = Date.now() + 3 * config.warmPool.refillIntervalMs;
+    this.redis.zadd(POOL_KEY, deadline, `${config.instanceId}:${containerId}`).catch((error: Error) => {
+      logger.error('Failed to track warm pool container', { containerId, error: error.message });
+    });
+  }
+
+  public untrackPooledContainer(containerId: string): void {
+    if (!this.distributed || !this.redis) return;
+
+    this.redis.zrem(POOL_KEY, `${config.instanceId}:${containerId}`).catch((error: Error) => {
+      logger.error('Failed to untrack warm pool container', { containerId, error: error.message });
+    });
+  }
+
+  // A pool container was started before its session, and Docker cannot relabel
+  // a running container. Its claim holds the labels a session container gets
+  // until the session's expiry, so the reconciler can still adopt it.
+  public async recordPoolClaim(containerId: string, labels: Record<string, string>, expiresAt: number): Promise<void> {
+    this.poolClaims.set(containerId, { labels, expiresAt });
+    if (!this.redis) return;
+
+    await this.redis.set(`${CLAIM_PREFIX}${containerId}`, JSON.stringify(labels), 'PX', Math.max(expiresAt - Date.now(), 1));
+  }
+
+  // Throws when Redis cannot be read, so callers never mistake that for "no claim"
+  public async getPoolClaim(containerId: string): Promise<Record<string, string> | null> {
+    const claim = this.poolClaims.get(containerId);
+    if (claim && claim.expiresAt > Date.now()) return claim.labels;
+    this.poolClaims.delete(containerId);
+    if (!this.redis) return null;
+
+    const data = await this.redis.get(`${CLAIM_PREFIX}${containerId}`);
+    return data ? JSON.parse(data) as Record<string, string> : null;
+  }
+
+  public removePoolClaim(containerId: string): void {
+    this.poolClaims.delete(containerId);
+    if (!this.redis) return;
+
+    this.redis.del(`${CLAIM_PREFIX}${containerId}`).catch((error: Error) => {
+      logger.error('Failed to remove warm pool claim', { containerId, error: error.message });
+    });
+  }
+
+  // One timer per configured threshold that is still ahead of us; re-armed on extension
+  private scheduleWarnings(containerId: string, remainingMs: number): void {
+    this.clearWarnings(containerId);
+
+    const timers = config.events.warningThresholdsMs
+      .filter(thresholdMs => thresholdMs < remainingMs)
+      .map(thresholdMs => setTimeout(() => {
+        const session = this.sessions.get(containerId);
+        if (session) {
+          this.emit('expiring-soon', session, Math.max(0, session.expiresAt - Date.now()));
+        }
+      }, remainingMs - thresholdMs));
+
+    if (timers.length > 0) {
+      this.warningTimers.set(containerId, timers);
+    }
+  }
+
+  private clearWarnings(containerId: string): void {
+    for (const timer of this.warningTimers.get(containerId) || []) {
+      clearTimeout(timer);
+    }
+    this.warningTimers.delete(containerId);
+  }
+
+  // Read from the record in Redis in redis store mode, where an extension made
+  // on another instance may not have reached the local copy yet
+  public async getRemainingTime(containerId: string): Promise<number> {
+    const session = this.distributed ? await this.fetchStoredSession(containerId) : this.sessions.get(containerId);
     if (!session) return 0;
     return Math.max(0, session.expiresAt - Date.now());
   }
@@ -189,26 +603,36 @@ class SessionStore {
     }, config.sessions.cleanupIntervalMs);
   }
 
-  private async cleanupExpiredSessions(): Promise<void> {
+  private cleanupExpiredSessions(): void {
+    // Expiry is coordinated through the shared schedule instead
+    if (this.distributed) return;
+
     const now = Date.now();
     const expiredSessions = Array.from(this.sessions.values()).filter(
       session => session.expiresAt <= now
     );
 
     for (const session of expiredSessions) {
-      await this.removeSession(session.containerId);
+      this.expireSession(session.containerId);
     }
 
     if (expiredSessions.length > 0) {
-      logger.info('Cleaned up expired sessions', { count: expiredSessions.length });
+      logger.info('Handed off expired sessions for teardown', { count: expiredSessions.length });
     }
   }
 
   public async shutdown(): Promise<void> {
+    this.closed = true;
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    if (this.expiryPollInterval) {
+      clearInterval(this.expiryPollInterval);
+    }
 
+    if (this.subscriber) {
+      await this.subscriber.quit();
+    }
     if (this.redis) {
       await this.redis.quit();
     }
@@ -216,6 +640,7 @@ class SessionStore {
     // Clear all timers
     for (const session of this.sessions.values()) {
       clearTimeout(session.timer);
+      this.clearWarnings(session.containerId);
     }
 
     this.sessions.clear();
@@ -228,6 +653,8 @@ class SessionStore {
       activeSessions: Array.from(this.sessions.values()).filter(s => s.expiresAt > Date.now()).length,
       redisConnected: this.redis?.status === 'ready',
       persistenceEnabled: config.sessions.persistenceEnabled,
+      storeMode: this.distributed ? 'redis' : 'local',
+      instanceId: config.instanceId,
     };
   }
 }
@@ -0,0 +1,10 @@
+import express from 'express';
+import metricsRoutes from './api/metrics';
+
+// Served on MONITORING_PORT, which is meant to be reachable by the scraper only
+const monitoringApp = express();
+
+monitoringApp.disable('x-powered-by');
+monitoringApp.use('/metrics', metricsRoutes);
+
+export default monitoringApp;
\ No newline at end of file
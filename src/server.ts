@@ -1,20 +1,39 @@
+// Loaded first so the modules below are instrumented
+import { shutdownTracing } from './instrumentation';
 import dotenv from 'dotenv';
 import app from './app';
+import monitoringApp from './monitoring';
 import config from './config';
 import logger from './utils/logger';
 import sessionManager from './services/sessionManager';
-// import dockerService from './services/dockerService'; // Temporarily disabled
+import reconciler from './services/reconciler';
+import egressProxy from './services/egressProxy';
+import usageMonitor from './services/usageMonitor';
+import sessionMetrics from './services/sessionMetrics';
 
 // Load environment variables
 dotenv.config();
 
+let shutdownStarted = false;
+
 // Graceful shutdown function
 const gracefulShutdown = async (signal: string): Promise<void> => {
+  // A second signal skips the wait for sessions
+  if (shutdownStarted) {
+    logger.warn(`Received ${signal} during shutdown, exiting immediately`);
+    process.exit(1);
+  }
+  shutdownStarted = true;
   logger.info(`Received ${signal}, starting graceful shutdown`);
   
   try {
-    // Shutdown session manager
+    // Shutdown session manager; it may wait for sessions, which keep being
+    // served and held to their limits meanwhile
+    reconciler.shutdown();
     await sessionManager.shutdown();
+    usageMonitor.shutdown();
+    await egressProxy.shutdown();
+    await shutdownTracing();
     
     logger.info('Graceful shutdown completed');
   } catch (error) {
@@ -28,12 +47,8 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
 // Health check function
 const performHealthCheck = async (): Promise<boolean> => {
   try {
-    // Temporarily disable Docker health check for debugging
-    // const dockerHealthy = await dockerService.healthCheck();
-    const dockerHealthy = true; // Assume Docker is healthy for now
-    const sessionManagerHealthy = await sessionManager.healthCheck();
-    
-    return dockerHealthy && sessionManagerHealthy;
+    // Covers the container runtime and the session store
+    return await sessionManager.healthCheck();
   } catch (error) {
     logger.error('Health check failed', {
       error: (error as Error).message,
@@ -55,6 +70,13 @@ const startServer = async (): Promise<void> => {
     }
     
     logger.info('Initial health check passed');
+
+    // Compare restored sessions with the containers that are actually running
+    reconciler.start();
+    usageMonitor.start();
+    sessionMetrics.start();
+    // Internet access for sessions whose profile restricts egress
+    egressProxy.start();
     
     // Start the server
     const server = app.listen(config.port, config.host, () => {
@@ -74,6 +96,18 @@ const startServer = async (): Promise<void> => {
         logger.info(`Status monitoring available at: http://${config.host}:${config.port}/status`);
       }
     });
+
+    // Sessions share a network with the API container, but may only use the proxy
+    egressProxy.refuseSessionNetworks(server);
+
+    if (config.monitoring.enabled) {
+      const monitoringServer = monitoringApp.listen(config.monitoring.port, config.host, () => {
+        logger.info(`Prometheus metrics available at: http://${config.host}:${config.monitoring.port}/metrics`);
+      }).on('error', (error: Error) => {
+        logger.error('Failed to start monitoring server', { port: config.monitoring.port, error: error.message });
+      });
+      egressProxy.refuseSessionNetworks(monitoringServer);
+    }
     
     // Handle server errors
     server.on('error', (error: NodeJS.ErrnoException) => {
@@ -96,6 +130,12 @@ const startServer = async (): Promise<void> => {
     // Setup graceful shutdown handlers
     process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
     process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+
+    // Toggles maintenance mode without stopping the process
+    process.on(config.drain.signal, () => {
+      logger.info(`Received ${config.drain.signal}, toggling maintenance mode`);
+      sessionManager.setAdmission(!sessionManager.isAdmitting());
+    });
     
     // Handle uncaught exceptions
     process.on('uncaughtException', (error: Error) => {
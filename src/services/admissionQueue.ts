@@ -0,0 +1,313 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { CreateSessionOptions, QueueTicket, QueueTicketStatus } from '../types';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+
+// Each replica admits into its own queue, so INSTANCE_ID has to survive restarts
+const queueKey = (instanceId: string): string => `admission-queue:${instanceId}`;
+const QUEUE_KEY = queueKey(config.instanceId);
+const TICKET_PREFIX = 'admission-ticket:';
+// Polls that reach another replica are recorded here for the issuing replica
+const SEEN_PREFIX = 'admission-ticket-seen:';
+
+export class AdmissionQueueFullError extends Error {
+  constructor() {
+    super(`Admission queue is full (${config.queue.maxLength} waiting)`);
+    this.name = 'AdmissionQueueFullError';
+  }
+}
+
+export type QueuedRequest = Pick<CreateSessionOptions, 'durationMs' | 'profile' | 'client'> & {
+  owner: QueueTicket['owner'];
+};
+
+// FIFO queue of start-session requests that found the pool full. The queue
+// only keeps tickets; SessionManager admits the head whenever a slot frees up
+// and listens for 'updated' to retry after enqueues and restarts.
+class AdmissionQueue extends EventEmitter {
+  private tickets: Map<string, QueueTicket> = new Map();
+  private waiting: string[] = [];
+  private redis: Redis | null;
+  private sweepInterval: NodeJS.Timeout;
+
+  constructor() {
+    super();
+    this.redis = config.queue.persistent ? createRedisClient('admission queue') : null;
+    if (!this.redis && config.sessions.persistenceEnabled && this.isEnabled()) {
+      logger.warn('INSTANCE_ID is not set, the admission queue is kept in memory and lost on restart');
+    }
+    this.loadQueue();
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch((error: Error) => {
+        logger.error('Failed to sweep admission queue', { error: error.message });
+      });
+    }, Math.max(Math.floor(config.queue.ticketTimeoutMs / 2), 1000));
+  }
+
+  public isEnabled(): boolean {
+    return config.queue.enabled;
+  }
+
+  public hasWaiters(): boolean {
+    return this.waiting.length > 0;
+  }
+
+  public enqueue(request: QueuedRequest): QueueTicketStatus {
+    if (this.waiting.length >= config.queue.maxLength) {
+      throw new AdmissionQueueFullError();
+    }
+
+    const { userId, tenantId } = request.owner;
+    const ticket: QueueTicket = {
+      id: uuidv4(),
+      state: 'waiting',
+      instanceId: config.instanceId,
+      // Only what is needed to start the session later is persisted
+      owner: { userId, ...(tenantId ? { tenantId } : {}) },
+      ...(request.client ? { client: request.client } : {}),
+      ...(request.durationMs ? { durationMs: request.durationMs } : {}),
+      ...(request.profile ? { profile: request.profile } : {}),
+      createdAt: new Date().toISOString(),
+      lastSeenAt: Date.now(),
+    };
+
+    this.tickets.set(ticket.id, ticket);
+    this.waiting.push(ticket.id);
+    this.persistTicket(ticket);
+    this.redis?.rpush(QUEUE_KEY, ticket.id).catch((error: Error) => {
+      logger.error('Failed to persist admission queue', { ticketId: ticket.id, error: error.message });
+    });
+
+    logger.info('Request queued for admission', {
+      ticketId: ticket.id,
+      userId: ticket.owner.userId,
+      position: this.waiting.length,
+    });
+
+    this.emit('updated');
+    return this.toStatus(ticket);
+  }
+
+  // Polling a ticket is what keeps it alive. Tickets issued by another replica
+  // are read from Redis, so polls do not need sticky routing.
+  public async touch(id: string): Promise<QueueTicketStatus | undefined> {
+    const ticket = this.tickets.get(id);
+    if (!ticket) return this.touchRemote(id);
+
+    if (ticket.state === 'waiting') {
+      ticket.lastSeenAt = Date.now();
+      this.persistTicket(ticket);
+    }
+    return this.toStatus(ticket);
+  }
+
+  public isLocal(id: string): boolean {
+    return this.tickets.has(id);
+  }
+
+  public cancel(id: string): boolean {
+    const ticket = this.tickets.get(id);
+    if (!ticket || ticket.state !== 'waiting') return false;
+
+    this.finish(ticket, 'cancelled');
+    logger.info('Queued request cancelled', { ticketId: id, userId: ticket.owner.userId });
+    return true;
+  }
+
+  // Takes the head of the queue; the caller reports the outcome with markAdmitted/markFailed
+  public next(): QueueTicket | undefined {
+    const id = this.waiting[0];
+    const ticket = id ? this.tickets.get(id) : undefined;
+    if (!ticket) return undefined;
+
+    this.finish(ticket, 'admitted');
+    logger.info('Queued request admitted', {
+      ticketId: ticket.id,
+      userId: ticket.owner.userId,
+      waitedMs: Date.now() - Date.parse(ticket.createdAt),
+    });
+    return ticket;
+  }
+
+  // Puts an admitted ticket back at the head when its start lost the race for the slot
+  public requeue(id: string): void {
+    const ticket = this.tickets.get(id);
+    if (!ticket || ticket.state !== 'admitted') return;
+
+    ticket.state = 'waiting';
+    ticket.lastSeenAt = Date.now();
+    this.waiting.unshift(id);
+    this.persistTicket(ticket);
+    this.redis?.lpush(QUEUE_KEY, id).catch((error: Error) => {
+      logger.error('Failed to persist admission queue', { ticketId: id, error: error.message });
+    });
+  }
+
+  public markAdmitted(id: string, jobId: string): void {
+    const ticket = this.tickets.get(id);
+    if (!ticket) return;
+
+    ticket.jobId = jobId;
+    this.persistTicket(ticket);
+  }
+
+  public markFailed(id: string, error: string): void {
+    const ticket = this.tickets.get(id);
+    if (!ticket) return;
+
+    ticket.state = 'failed';
+    ticket.error = error;
+    this.persistTicket(ticket);
+    logger.warn('Admitted request failed to start', { ticketId: id, error });
+  }
+
+  public getStats(): Record<string, any> {
+    return {
+      enabled: this.isEnabled(),
+      waiting: this.waiting.length,
+      maxLength: config.queue.maxLength,
+    };
+  }
+
+  public shutdown(): void {
+    clearInterval(this.sweepInterval);
+  }
+
+  private finish(ticket: QueueTicket, state: QueueTicket['state']): void {
+    ticket.state = state;
+    ticket.lastSeenAt = Date.now();
+    this.waiting = this.waiting.filter(id => id !== ticket.id);
+    this.persistTicket(ticket);
+    this.redis?.lrem(QUEUE_KEY, 0, ticket.id).catch((error: Error) => {
+      logger.error('Failed to persist admission queue', { ticketId: ticket.id, error: error.message });
+    });
+  }
+
+  private async touchRemote(id: string): Promise<QueueTicketStatus | undefined> {
+    if (!this.redis) return undefined;
+
+    try {
+      const data = await this.redis.get(`${TICKET_PREFIX}${id}`);
+      if (!data) return undefined;
+
+      const ticket = JSON.parse(data) as QueueTicket;
+      if (ticket.state !== 'waiting') {
+        return this.toStatus(ticket);
+      }
+
+      // Only the issuing replica writes the ticket; it picks this up in its sweep
+      const ttlSeconds = Math.ceil(config.queue.ticketTimeoutMs / 1000);
+      const [, ids] = await Promise.all([
+        this.redis.setex(`${SEEN_PREFIX}${id}`, ttlSeconds, String(Date.now())),
+        this.redis.lrange(queueKey(ticket.instanceId), 0, -1),
+      ]);
+      return this.toStatus(ticket, ids.indexOf(id));
+    } catch (error) {
+      logger.error('Failed to load queue ticket from Redis', { ticketId: id, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  private toStatus(ticket: QueueTicket, index = this.waiting.indexOf(ticket.id)): QueueTicketStatus {
+    const { owner, client, lastSeenAt, instanceId, ...rest } = ticket;
+
+    return {
+      ...rest,
+      userId: owner.userId,
+      ...(index >= 0 ? { position: index + 1, estimatedWaitMs: this.estimateWait(index + 1) } : {}),
+    };
+  }
+
+  // The n-th waiter gets the n-th slot to free up; beyond the running
+  // sessions each further round is assumed to take a default-length session.
+  private estimateWait(position: number): number {
+    const remaining = sessionStore.getAllSessions()
+      .map(session => Math.max(0, session.expiresAt - Date.now()))
+      .sort((a, b) => a - b);
+
+    if (remaining.length === 0) {
+      return 0;
+    }
+
+    const index = (position - 1) % remaining.length;
+    const rounds = Math.floor((position - 1) / remaining.length);
+    return remaining[index]! + rounds * config.sessions.defaultDurationMs;
+  }
+
+  // Abandoned tickets leave the queue; finished ones stay queryable for a while
+  private async sweep(): Promise<void> {
+    const abandonedBefore = Date.now() - config.queue.ticketTimeoutMs;
+    const retainedAfter = Date.now() - config.jobs.retentionMs;
+
+    for (const ticket of [...this.tickets.values()]) {
+      if (ticket.state === 'waiting' && ticket.lastSeenAt < abandonedBefore) {
+        const seenElsewhere = await this.lastSeenElsewhere(ticket.id);
+        if (ticket.state !== 'waiting') continue;
+        if (seenElsewhere >= abandonedBefore) {
+          ticket.lastSeenAt = seenElsewhere;
+          continue;
+        }
+
+        this.finish(ticket, 'expired');
+        logger.info('Dropped abandoned queue ticket', { ticketId: ticket.id, userId: ticket.owner.userId });
+      } else if (ticket.state !== 'waiting' && ticket.lastSeenAt < retainedAfter) {
+        this.tickets.delete(ticket.id);
+      }
+    }
+  }
+
+  private async lastSeenElsewhere(id: string): Promise<number> {
+    if (!this.redis) return 0;
+
+    try {
+      return parseInt(await this.redis.get(`${SEEN_PREFIX}${id}`) || '0', 10);
+    } catch (error) {
+      logger.error('Failed to read queue ticket poll from Redis', { ticketId: id, error: (error as Error).message });
+      return 0;
+    }
+  }
+
+  private persistTicket(ticket: QueueTicket): void {
+    if (!this.redis) return;
+
+    const ttlSeconds = Math.ceil((config.queue.ticketTimeoutMs + config.jobs.retentionMs) / 1000);
+    this.redis.setex(`${TICKET_PREFIX}${ticket.id}`, ttlSeconds, JSON.stringify(ticket)).catch((error: Error) => {
+      logger.error('Failed to persist queue ticket', { ticketId: ticket.id, error: error.message });
+    });
+  }
+
+  private async loadQueue(): Promise<void> {
+    if (!this.redis) return;
+
+    try {
+      const ids = await this.redis.lrange(QUEUE_KEY, 0, -1);
+      for (const id of ids) {
+        const data = await this.redis.get(`${TICKET_PREFIX}${id}`);
+        const ticket = data ? JSON.parse(data) as QueueTicket : null;
+
+        if (!ticket || ticket.state !== 'waiting') {
+          await this.redis.lrem(QUEUE_KEY, 0, id);
+          continue;
+        }
+
+        // Clients could not poll while we were down
+        ticket.lastSeenAt = Date.now();
+        this.tickets.set(id, ticket);
+        this.waiting.push(id);
+      }
+
+      logger.info(`Loaded ${this.waiting.length} queued requests from Redis`);
+      if (this.waiting.length > 0) {
+        this.emit('updated');
+      }
+    } catch (error) {
+      logger.error('Failed to load admission queue from Redis', { error: (error as Error).message });
+    }
+  }
+}
+
+export default new AdmissionQueue();
\ No newline at end of file
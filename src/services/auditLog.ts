@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditEvent, AuditQuery, SessionAction } from '../types';
+import config from '../config';
+import logger, { logSessionAction } from '../utils/logger';
+import { getRequestId } from '../utils/requestContext';
+
+const matches = (event: AuditEvent, query: AuditQuery): boolean => {
+  const time = Date.parse(event.timestamp);
+  return (!query.userId || event.userId === query.userId || event.actor === query.userId)
+    && (!query.containerId || event.containerId === query.containerId)
+    && (!query.action || event.action === query.action)
+    && (query.from === undefined || time >= query.from)
+    && (query.to === undefined || time <= query.to);
+};
+
+// Append-only record of session starts, stops, extensions, expiries and
+// cleanups, one JSON event per line. Unlike the rotating application logs it
+// is never compressed or pruned, so it can be queried and exported.
+class AuditLog {
+  // Appends are chained so lines never interleave and queries see every
+  // event recorded before them
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor() {
+    if (config.audit.enabled) {
+      fs.mkdirSync(path.dirname(config.audit.filePath), { recursive: true });
+    }
+  }
+
+  public record(action: SessionAction): AuditEvent {
+    const actor = action.actor || 'system';
+    const requestId = getRequestId();
+    const event: AuditEvent = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      ...action,
+      actor,
+      instanceId: config.instanceId,
+      // Timers inherit the context of the request that set them up
+      ...(requestId && actor !== 'system' ? { requestId } : {}),
+    };
+
+    const { action: name, ...details } = event;
+    logSessionAction(name, details);
+
+    if (config.audit.enabled) {
+      this.writes = this.writes
+        .then(() => fs.promises.appendFile(config.audit.filePath, `${JSON.stringify(event)}\n`))
+        .catch((error: Error) => {
+          logger.error('Failed to write audit event', {
+            eventId: event.id,
+            action: event.action,
+            containerId: event.containerId,
+            error: error.message,
+          });
+        });
+    }
+    return event;
+  }
+
+  // The most recent `limit` matching events, oldest first
+  public async query(query: AuditQuery): Promise<AuditEvent[]> {
+    await this.flush();
+    if (!fs.existsSync(config.audit.filePath)) return [];
+
+    const found: AuditEvent[] = [];
+    const lines = readline.createInterface({
+      input: fs.createReadStream(config.audit.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let event: AuditEvent;
+      try {
+        event = JSON.parse(line) as AuditEvent;
+      } catch (error) {
+        // A line cut short by a crash; the rest of the file is still good
+        continue;
+      }
+      if (matches(event, query)) {
+        found.push(event);
+        if (found.length > query.limit) found.shift();
+      }
+    }
+    return found;
+  }
+
+  public flush(): Promise<void> {
+    return this.writes;
+  }
+}
+
+export default new AuditLog();
\ No newline at end of file
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import { AuthIdentity } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+const SESSION_ACCESS_TOKEN_TYPE = 'session-access';
+
+class AuthService {
+  // Verified API keys keyed by their SHA-256 digest, so bcrypt only runs once per TTL
+  private apiKeyCache: Map<string, { identity: AuthIdentity; expiresAt: number }> = new Map();
+
+  constructor() {
+    if (!config.security.authEnabled) {
+      logger.warn('Authentication disabled, all requests are treated as anonymous');
+    }
+  }
+
+  public getAnonymousIdentity(): AuthIdentity {
+    return { userId: 'anonymous', method: 'anonymous', roles: [] };
+  }
+
+  public verifyToken(token: string): AuthIdentity | null {
+    try {
+      const payload = jwt.verify(token, config.security.jwtSecret);
+      if (typeof payload === 'string' || !payload.sub || payload['typ'] === SESSION_ACCESS_TOKEN_TYPE) {
+        return null;
+      }
+
+      return this.toIdentity(payload.sub, 'jwt', payload['roles'], payload['tenantId']);
+    } catch (error) {
+      logger.debug('JWT verification failed', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  public async verifyApiKey(apiKey: string): Promise<AuthIdentity | null> {
+    const digest = crypto.createHash('sha256').update(apiKey).digest('hex');
+    const cached = this.apiKeyCache.get(digest);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.identity;
+    }
+    this.apiKeyCache.delete(digest);
+
+    // Keys are "<id>.<secret>"; the id selects which hash to compare against
+    const keyId = apiKey.split('.')[0];
+    const entry = config.security.apiKeys.find(key => key.id === keyId);
+    if (!entry || !(await bcrypt.compare(apiKey, entry.hash))) {
+      return null;
+    }
+
+    const identity = this.toIdentity(entry.userId, 'api-key', entry.roles, entry.tenantId);
+    this.apiKeyCache.set(digest, {
+      identity,
+      expiresAt: Date.now() + config.security.apiKeyCacheTtlMs,
+    });
+    return identity;
+  }
+
+  public issueToken(identity: Omit<AuthIdentity, 'method'>): string {
+    return jwt.sign(
+      {
+        roles: identity.roles,
+        ...(identity.tenantId ? { tenantId: identity.tenantId } : {}),
+      },
+      config.security.jwtSecret,
+      this.signOptions(identity.userId)
+    );
+  }
+
+  // Scoped token for the browser iframe, which cannot send Authorization headers
+  public issueSessionAccessToken(userId: string, containerId: string): string {
+    return jwt.sign(
+      { typ: SESSION_ACCESS_TOKEN_TYPE, sid: containerId },
+      config.security.jwtSecret,
+      this.signOptions(userId)
+    );
+  }
+
+  public verifySessionAccessToken(token: string, containerId: string): string | null {
+    try {
+      const payload = jwt.verify(token, config.security.jwtSecret) as JwtPayload;
+      if (payload['typ'] !== SESSION_ACCESS_TOKEN_TYPE || payload['sid'] !== containerId || !payload.sub) {
+        return null;
+      }
+      return payload.sub;
+    } catch (error) {
+      logger.debug('Session access token verification failed', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  public hasRole(identity: AuthIdentity | undefined, role: string): boolean {
+    return !!identity && identity.roles.includes(role);
+  }
+
+  private signOptions(subject: string): SignOptions {
+    return {
+      subject,
+      expiresIn: config.security.jwtExpiresIn as NonNullable<SignOptions['expiresIn']>,
+    };
+  }
+
+  private toIdentity(userId: string, method: AuthIdentity['method'], roles: unknown, tenantId: unknown): AuthIdentity {
+    return {
+      userId,
+      method,
+      roles: Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [],
+      ...(typeof tenantId === 'string' && tenantId ? { tenantId } : {}),
+    };
+  }
+}
+
+export default new AuthService();
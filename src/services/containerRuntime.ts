@@ -0,0 +1,21 @@
+import { ContainerRuntime } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { DockerService } from './dockerService';
+import { FakeRuntime } from './fakeRuntime';
+
+// The backend sessions run on, chosen by CONTAINER_RUNTIME. Orchestration
+// code only talks to this instance, never to a backend directly.
+const createRuntime = (): ContainerRuntime => {
+  switch (config.runtime) {
+    case 'fake':
+      logger.warn('Using the fake container runtime; sessions run in-process without Docker');
+      return new FakeRuntime();
+    case 'docker':
+      return new DockerService();
+    default:
+      throw new Error(`Unknown container runtime: ${String(config.runtime)}`);
+  }
+};
+
+export default createRuntime();
\ No newline at end of file
@@ -1,37 +1,89 @@
+import fs from 'fs';
 import Docker from 'dockerode';
-import type { Container } from 'dockerode';
-import { ContainerInfo } from '../types';
+import type { Container, NetworkInspectInfo } from 'dockerode';
+import type { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ContainerExitListener,
+  ContainerInfo,
+  ContainerLogOptions,
+  ContainerRuntime,
+  ContainerStats,
+  ContainerUsage,
+  DockerNodeConfig,
+  EgressConfig,
+  ManagedContainer,
+  NodeLoad,
+  SessionProfile,
+  StartContainerOptions,
+} from '../types';
 import config from '../config';
 import logger from '../utils/logger';
+import metrics, { StartPhase } from './metrics';
+import { withSpan } from '../utils/tracing';
+import { parseMemoryLimit } from '../utils/resources';
+import { pickNode } from '../utils/placement';
+import { baseLabels, MANAGED_LABEL, NETWORK_LABEL, SESSION_LABELS } from '../utils/labels';
+import { needsEgressProxy, resolveEgress } from '../utils/egress';
+import { buildSecurityOptions, resolveHardening } from '../utils/hardening';
+import { buildStorageOptions, resolveLimits } from '../utils/limits';
+import egressProxy from './egressProxy';
 
-class DockerService {
-  private docker: Docker;
+const SESSION_NETWORK_PREFIX = 'disposable-session-';
+
+interface DockerNode {
+  config: DockerNodeConfig;
+  docker: Docker;
+}
+
+// Talks to every Docker node in config.docker.nodes. Containers are placed on
+// a node by PLACEMENT_STRATEGY; callers that know a container's node pass it
+// along, otherwise the nodes are searched for the container.
+export class DockerService implements ContainerRuntime {
+  private nodes: Map<string, DockerNode> = new Map();
+  private userNamespaces: Map<string, boolean> = new Map();
   private maxRetries = 3;
   private retryDelay = 1000;
 
   constructor() {
-    // For Windows Docker Desktop, use the default Docker host
-    // For Linux, use the socket path
-    const isWin = process.platform === 'win32';
-    if (isWin) {
-      // On Windows, Docker Desktop exposes the daemon on tcp://localhost:2375 or uses named pipes
-      // The dockerode library will automatically detect the correct connection method
-      this.docker = new Docker();
-    } else {
-      // On Linux, use the socket
-      this.docker = new Docker({ socketPath: '/var/run/docker.sock' });
+    for (const nodeConfig of config.docker.nodes) {
+      this.nodes.set(nodeConfig.name, { config: nodeConfig, docker: this.createClient(nodeConfig) });
     }
     
-    // Test the connection immediately
-    this.testConnection();
+    // Test the connections immediately
+    for (const node of this.nodes.values()) {
+      this.testConnection(node);
+      this.restoreSessionNetworks(node);
+    }
+  }
+
+  private createClient(node: DockerNodeConfig): Docker {
+    if (node.socketPath) {
+      return new Docker({ socketPath: node.socketPath });
+    }
+    if (node.host) {
+      return new Docker({
+        host: node.host,
+        port: node.port || (node.protocol === 'https' ? 2376 : 2375),
+        protocol: node.protocol || 'http',
+        ...(node.caPath ? { ca: fs.readFileSync(node.caPath) } : {}),
+        ...(node.certPath ? { cert: fs.readFileSync(node.certPath) } : {}),
+        ...(node.keyPath ? { key: fs.readFileSync(node.keyPath) } : {}),
+      });
+    }
+    // On Windows, Docker Desktop exposes the daemon on tcp://localhost:2375 or uses named pipes
+    // The dockerode library will automatically detect the correct connection method
+    return new Docker();
   }
 
-  private async testConnection(): Promise<void> {
+  private async testConnection(node: DockerNode): Promise<void> {
     try {
-      await this.docker.ping();
-      logger.info('Docker connection established successfully');
+      await node.docker.ping();
+      logger.info('Docker connection established successfully', { node: node.config.name });
     } catch (error) {
+      metrics.dockerErrors.inc({ operation: 'ping' });
       logger.error('Failed to connect to Docker daemon', {
+        node: node.config.name,
         error: (error as Error).message,
         platform: process.platform,
       });
@@ -41,93 +93,184 @@ class DockerService {
     }
   }
 
-  public async startContainer(image?: string): Promise<ContainerInfo> {
+  // The API container stays on the networks of sessions that outlive a
+  // restart; the egress proxy needs its addresses there back
+  private async restoreSessionNetworks(node: DockerNode): Promise<void> {
+    if (!node.config.apiContainer) {
+      return;
+    }
+    try {
+      const info = await node.docker.getContainer(node.config.apiContainer).inspect();
+      for (const [name, endpoint] of Object.entries(info.NetworkSettings.Networks)) {
+        if (name.startsWith(SESSION_NETWORK_PREFIX) && endpoint.IPAddress) {
+          egressProxy.addSessionNetwork(name, endpoint.IPAddress);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to read the session networks of the API container', {
+        node: node.config.name,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  public getNodeNames(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  // Where the API reaches ports published by containers on the node
+  public getContainerHost(nodeName?: string): string {
+    return this.getNode(nodeName).config.containerHost;
+  }
+
+  // Sessions recorded before nodes existed belong to the first node
+  private getNode(nodeName?: string): DockerNode {
+    const node = nodeName ? this.nodes.get(nodeName) : this.nodes.values().next().value;
+    if (!node) {
+      throw new Error(`Unknown Docker node: ${nodeName}`);
+    }
+    return node;
+  }
+
+  public async getNodeLoads(): Promise<NodeLoad[]> {
+    const loads = await Promise.all(Array.from(this.nodes.values()).map(async (node): Promise<NodeLoad | null> => {
+      try {
+        return {
+          name: node.config.name,
+          running: await this.countRunningContainers(node),
+          capacity: node.config.capacity,
+          labels: node.config.labels,
+          userNamespaces: await this.hasUserNamespaces(node),
+        };
+      } catch (error) {
+        // Unreachable nodes get no new containers
+        logger.warn('Docker node unavailable for placement', {
+          node: node.config.name,
+          error: (error as Error).message,
+        });
+        return null;
+      }
+    }));
+    return loads.filter((load): load is NodeLoad => load !== null);
+  }
+
+  // Whether the daemon runs containers in a remapped user namespace (userns-remap).
+  // That is daemon configuration, so it is only asked once per node.
+  private async hasUserNamespaces(node: DockerNode): Promise<boolean> {
+    let enabled = this.userNamespaces.get(node.config.name);
+    if (enabled === undefined) {
+      const info = await node.docker.info();
+      const securityOptions: string[] = info.SecurityOptions || [];
+      enabled = securityOptions.some(option => option.split(',').includes('name=userns'));
+      this.userNamespaces.set(node.config.name, enabled);
+    }
+    return enabled;
+  }
+
+  private async placeContainer(profile: SessionProfile): Promise<DockerNode> {
+    const loads = await this.getNodeLoads();
+    const eligible = resolveHardening(profile).userNamespace ? loads.filter(load => load.userNamespaces) : loads;
+    const node = pickNode(eligible, profile, config.docker.placementStrategy);
+    if (!node) {
+      throw new Error(`No Docker node has capacity for profile "${profile.name}"`);
+    }
+    return this.getNode(node.name);
+  }
+
+  public async startContainer(profile: SessionProfile, options: StartContainerOptions = {}): Promise<ContainerInfo> {
     const startTime = Date.now();
-    const containerImage = image || config.docker.image;
+    const containerImage = profile.image;
+    let createdContainerId: string | null = null;
+    let node: DockerNode | null = null;
+    let networkName: string | null = null;
 
     try {
-      logger.info('Starting container', { image: containerImage });
+      logger.info('Starting container', { image: containerImage, profile: profile.name });
 
-      // Check if we're at capacity
-      const activeContainers = await this.getActiveContainersCount();
-      if (activeContainers >= config.sessions.maxSessions) {
-        throw new Error(`Maximum number of sessions (${config.sessions.maxSessions}) reached`);
+      const placed = options.node ? this.getNode(options.node) : await this.placeContainer(profile);
+      node = placed;
+      const hardening = resolveHardening(profile);
+      if (hardening.userNamespace && !(await this.hasUserNamespaces(node))) {
+        throw new Error(`Profile "${profile.name}" needs user namespaces, which Docker node "${node.config.name}" does not remap`);
       }
 
       // Validate image exists or pull it
-      await this.ensureImageExists(containerImage);
+      options.onPhase?.('pulling');
+      await this.runPhase('pull', 'ensureImageExists', () => this.ensureImageExists(placed, containerImage));
+      options.onPhase?.('starting');
 
-      // DEBUG: Log the container create options
-      logger.debug('Creating container with options', {
-        Image: containerImage,
-        Tty: false,
-        Env: config.docker.environment,
-        HostConfig: {
-          PortBindings: config.docker.portBindings,
-          PublishAllPorts: true,
-          ShmSize: config.docker.shmSize,
-          SecurityOpt: ['seccomp=unconfined'],
-          Memory: this.parseMemoryLimit(config.docker.memoryLimit),
-          CpuQuota: Math.floor(config.docker.cpuLimit * 100000),
-          CpuPeriod: 100000,
-          RestartPolicy: {
-            Name: 'no',
-          },
-          AutoRemove: true,
-        },
-        ExposedPorts: {
-          '3000/tcp': {},
-          '3001/tcp': {},
-        },
-        Labels: {
-          'disposable-suite': 'true',
-          'created-by': 'disposable-suite',
-          'created-at': new Date().toISOString(),
-        },
-      });
+      const limits = resolveLimits(profile);
+      const egress = resolveEgress(profile);
+      const isolated = config.docker.network.mode === 'per-session';
+      // With the API on the session network nothing needs to be published
+      const publish = !(isolated && node.config.apiContainer);
+      if (needsEgressProxy(egress) && publish) {
+        throw new Error(`Profile "${profile.name}" restricts egress, which needs the API container on Docker node "${node.config.name}"`);
+      }
+      if (isolated) {
+        networkName = await this.createSessionNetwork(node, needsEgressProxy(egress));
+      }
 
-      const container = await this.docker.createContainer({
+      const createOptions = {
         Image: containerImage,
         Tty: false,
-        Env: config.docker.environment,
+        Env: [...config.docker.environment, ...profile.environment, ...this.getProxyEnvironment(egress)]
+          .filter((entry, index, all) => all.indexOf(entry) === index),
         HostConfig: {
-          PortBindings: config.docker.portBindings,
-          PublishAllPorts: true,
-          ShmSize: config.docker.shmSize,
-          SecurityOpt: ['seccomp=unconfined'],
-          Memory: this.parseMemoryLimit(config.docker.memoryLimit),
-          CpuQuota: Math.floor(config.docker.cpuLimit * 100000),
+          NetworkMode: networkName || 'bridge',
+          ...(publish ? {
+            PortBindings: Object.fromEntries(profile.ports.map(port => [port, [{}]])),
+            PublishAllPorts: true,
+          } : {}),
+          ShmSize: profile.shmSize,
+          ...buildSecurityOptions(hardening),
+          ...buildStorageOptions(limits, hardening.tmpfs),
+          Memory: parseMemoryLimit(profile.memoryLimit),
+          CpuQuota: Math.floor(profile.cpuLimit * 100000),
           CpuPeriod: 100000,
           RestartPolicy: {
             Name: 'no',
           },
           AutoRemove: true,
         },
-        ExposedPorts: {
-          '3000/tcp': {},
-          '3001/tcp': {},
-        },
+        ExposedPorts: Object.fromEntries(profile.ports.map(port => [port, {}])),
         Labels: {
-          'disposable-suite': 'true',
-          'created-by': 'disposable-suite',
-          'created-at': new Date().toISOString(),
+          ...baseLabels(profile.name, config.instanceId),
+          ...(networkName ? { [NETWORK_LABEL]: networkName } : {}),
+          ...options.labels,
         },
-      });
+      };
 
+      // DEBUG: Log the container create options
+      logger.debug('Creating container with options', createOptions);
+
+      const container = await this.runPhase('create', 'createContainer', () => placed.docker.createContainer(createOptions));
+
+      createdContainerId = container.id;
       logger.debug('Container created', { containerId: container.id });
 
-      await this.startContainerWithRetry(container);
+      await this.runPhase('start', 'start', () => this.startContainerWithRetry(container));
+      if (limits.egressMbit > 0) {
+        await this.shapeEgress(node, container.id, limits.egressMbit);
+      }
 
-      // Wait for Docker to assign a host port
-      const hostPort = await this.waitForHostPort(container);
+      // Wait for Docker to assign a host port, or reach the container on its network
+      const hostPort = publish
+        ? await this.runPhase('port_wait', 'waitForHostPort', () => this.waitForHostPort(container, profile.ports[0]!))
+        : parseInt(profile.ports[0]!, 10);
       const info = await container.inspect(); // for logging and status
       logger.debug('Container inspect info', { inspect: info });
+      const host = networkName && !publish ? info.NetworkSettings.Networks[networkName]?.IPAddress : undefined;
+      if (!publish && !host) {
+        throw new Error('Docker did not assign the container an address on its network');
+      }
       if (hostPort === 0) {
         logger.warn('Container started but hostPort is 0. Port mapping may have failed.', {
           containerId: container.id,
           ports: info.NetworkSettings.Ports,
           hostConfig: info.HostConfig,
         });
+        throw new Error('Docker did not assign a host port to the container');
       }
 
       const duration = Date.now() - startTime;
@@ -135,6 +278,10 @@ class DockerService {
         containerId: container.id,
         hostPort,
         image: containerImage,
+        profile: profile.name,
+        node: node.config.name,
+        network: networkName,
+        egress: egress.policy,
         duration: `${duration}ms`,
       });
 
@@ -142,25 +289,172 @@ class DockerService {
         id: container.id,
         hostPort,
         status: info.State.Status as 'running' | 'stopped' | 'removed',
+        node: node.config.name,
+        ...(host ? { host } : {}),
       };
     } catch (error) {
       const duration = Date.now() - startTime;
+      metrics.dockerErrors.inc({ operation: 'start' });
       logger.error('Failed to start container', {
         image: containerImage,
+        containerId: createdContainerId,
+        node: node?.config.name,
         error: (error as Error).message,
         duration: `${duration}ms`,
       });
+
+      // Never leave a half-started container (or its network) behind
+      if (createdContainerId && node) {
+        await this.stopContainer(createdContainerId, node.config.name);
+      } else if (networkName && node) {
+        await this.removeSessionNetwork(node, networkName);
+      }
       throw error;
     }
   }
 
-  public async stopContainer(containerId: string): Promise<boolean> {
+  // Each start phase gets its own span and a latency sample
+  private runPhase<T>(phase: StartPhase, operation: string, run: () => Promise<T>): Promise<T> {
+    return withSpan(`DockerService.${operation}`, { 'docker.phase': phase }, () => metrics.timePhase(phase, run()));
+  }
+
+  // tc needs NET_ADMIN, which session containers never get. A short-lived
+  // helper joins the container's network namespace and installs a token bucket
+  // on eth0; the qdisc stays with the namespace after the helper exits.
+  private async shapeEgress(node: DockerNode, containerId: string, mbit: number): Promise<void> {
+    const image = config.docker.trafficShaperImage;
+    await this.ensureImageExists(node, image);
+
+    // The bucket must hold at least one timer tick's worth of traffic
+    const burstKb = Math.max(32, Math.ceil(mbit));
+    const helper = await node.docker.createContainer({
+      Image: image,
+      Cmd: ['tc', 'qdisc', 'replace', 'dev', 'eth0', 'root', 'tbf', 'rate', `${mbit}mbit`, 'burst', `${burstKb}kb`, 'latency', '400ms'],
+      HostConfig: {
+        NetworkMode: `container:${containerId}`,
+        CapDrop: ['ALL'],
+        CapAdd: ['NET_ADMIN'],
+      },
+    });
+
+    try {
+      await helper.start();
+      const result: { StatusCode: number } = await helper.wait();
+      if (result.StatusCode !== 0) {
+        throw new Error(`Traffic shaping failed with exit code ${result.StatusCode}`);
+      }
+      logger.debug('Container egress shaped', { containerId, mbit });
+    } finally {
+      await helper.remove({ force: true }).catch(() => undefined);
+    }
+  }
+
+  // A bridge network for one container. Without direct egress it is internal:
+  // no route out, only the API's egress proxy is reachable.
+  private async createSessionNetwork(node: DockerNode, internal: boolean): Promise<string> {
+    const name = `${SESSION_NETWORK_PREFIX}${uuidv4().slice(0, 12)}`;
+    const network = await node.docker.createNetwork({
+      Name: name,
+      Driver: 'bridge',
+      Internal: internal,
+      CheckDuplicate: true,
+      Labels: {
+        [MANAGED_LABEL]: 'true',
+        [SESSION_LABELS.instance]: config.instanceId,
+      },
+    });
+
+    if (node.config.apiContainer) {
+      await network.connect({
+        Container: node.config.apiContainer,
+        EndpointConfig: { Aliases: [config.docker.network.egressProxyAlias] },
+      });
+      // Before the session starts, so it never reaches the API itself
+      const info = await node.docker.getContainer(node.config.apiContainer).inspect();
+      const address = info.NetworkSettings.Networks[name]?.IPAddress;
+      if (address) {
+        egressProxy.addSessionNetwork(name, address);
+      }
+    }
+
+    logger.debug('Session network created', { network: name, internal, node: node.config.name });
+    return name;
+  }
+
+  private async removeSessionNetwork(node: DockerNode, name: string): Promise<void> {
+    try {
+      const network = node.docker.getNetwork(name);
+      egressProxy.removeSessionNetwork(name);
+      if (node.config.apiContainer) {
+        await network.disconnect({ Container: node.config.apiContainer, Force: true }).catch(() => undefined);
+      }
+      await network.remove();
+      logger.debug('Session network removed', { network: name, node: node.config.name });
+    } catch (error) {
+      // 404: already gone; anything else is retried by the orphan cleanup
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        logger.warn('Failed to remove session network', {
+          network: name,
+          node: node.config.name,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  private getProxyEnvironment(egress: EgressConfig): string[] {
+    if (!needsEgressProxy(egress)) {
+      return [];
+    }
+    const proxyUrl = `http://${config.docker.network.egressProxyAlias}:${config.docker.network.egressProxyPort}`;
+    return [
+      `HTTP_PROXY=${proxyUrl}`,
+      `HTTPS_PROXY=${proxyUrl}`,
+      `http_proxy=${proxyUrl}`,
+      `https_proxy=${proxyUrl}`,
+      'NO_PROXY=localhost,127.0.0.1',
+      'no_proxy=localhost,127.0.0.1',
+    ];
+  }
+
+  // Finds the node running a container whose node was not recorded. Null means
+  // no node has it; if a node could not be asked this throws instead, since
+  // the container may well be running there.
+  private async locateContainer(containerId: string): Promise<DockerNode | null> {
+    const unreachable: string[] = [];
+    for (const node of this.nodes.values()) {
+      try {
+        await node.docker.getContainer(containerId).inspect();
+        return node;
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode !== 404) {
+          unreachable.push(node.config.name);
+        }
+      }
+    }
+    if (unreachable.length > 0) {
+      throw new Error(`Container ${containerId} not found on the reachable Docker nodes; unreachable: ${unreachable.join(', ')}`);
+    }
+    return null;
+  }
+
+  private async resolveNode(containerId: string, nodeName?: string): Promise<DockerNode | null> {
+    return nodeName || this.nodes.size === 1 ? this.getNode(nodeName) : this.locateContainer(containerId);
+  }
+
+  public async stopContainer(containerId: string, nodeName?: string): Promise<boolean> {
     const startTime = Date.now();
 
     try {
-      logger.info('Stopping container', { containerId });
+      logger.info('Stopping container', { containerId, node: nodeName });
 
-      const container = this.docker.getContainer(containerId);
+      const node = await this.resolveNode(containerId, nodeName);
+      if (!node) {
+        logger.info('Container already removed', { containerId });
+        return true;
+      }
+
+      const container = node.docker.getContainer(containerId);
       const info = await container.inspect();
 
       if (info.State.Status === 'running') {
@@ -169,6 +463,11 @@ class DockerService {
 
       await container.remove({ force: true });
 
+      const networkName = info.Config.Labels?.[NETWORK_LABEL];
+      if (networkName) {
+        await this.removeSessionNetwork(node, networkName);
+      }
+
       const duration = Date.now() - startTime;
       logger.info('Container stopped successfully', {
         containerId,
@@ -178,6 +477,19 @@ class DockerService {
       return true;
     } catch (error) {
       const duration = Date.now() - startTime;
+
+      // 404: already gone, 409: AutoRemove is already removing it
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 409) {
+        logger.info('Container already removed', {
+          containerId,
+          statusCode,
+          duration: `${duration}ms`,
+        });
+        return true;
+      }
+
+      metrics.dockerErrors.inc({ operation: 'stop' });
       logger.error('Failed to stop container', {
         containerId,
         error: (error as Error).message,
@@ -187,18 +499,27 @@ class DockerService {
     }
   }
 
-  public async getContainerInfo(containerId: string): Promise<ContainerInfo | null> {
+  public async getContainerInfo(containerId: string, port = '3000/tcp', nodeName?: string): Promise<ContainerInfo | null> {
     try {
-      const container = this.docker.getContainer(containerId);
+      const node = await this.resolveNode(containerId, nodeName);
+      if (!node) return null;
+      const container = node.docker.getContainer(containerId);
       const info = await container.inspect();
-      const portInfo = info.NetworkSettings.Ports['3000/tcp'];
-      const hostPort = portInfo?.[0]?.HostPort ? parseInt(portInfo[0].HostPort, 10) : 0;
+      const portInfo = info.NetworkSettings.Ports[port];
+      const networkName = info.Config.Labels?.[NETWORK_LABEL];
+      const host = !portInfo?.[0]?.HostPort && networkName
+        ? info.NetworkSettings.Networks[networkName]?.IPAddress
+        : undefined;
+      const hostPort = portInfo?.[0]?.HostPort ? parseInt(portInfo[0].HostPort, 10) : host ? parseInt(port, 10) : 0;
       return {
         id: containerId,
         hostPort,
         status: info.State.Status as 'running' | 'stopped' | 'removed',
+        node: node.config.name,
+        ...(host ? { host } : {}),
       };
     } catch (error) {
+      metrics.dockerErrors.inc({ operation: 'inspect' });
       logger.error('Failed to get container info', {
         containerId,
         error: (error as Error).message,
@@ -207,94 +528,451 @@ class DockerService {
     }
   }
 
-  public async getActiveContainersCount(): Promise<number> {
+  public async getContainerStats(containerId: string, nodeName?: string): Promise<ContainerStats | null> {
     try {
-      const containers = await this.docker.listContainers({
-        filters: {
-          label: ['disposable-suite=true'],
-          status: ['running'],
-        },
+      const node = await this.resolveNode(containerId, nodeName);
+      if (!node) return null;
+      const stats = await node.docker.getContainer(containerId).stats({ stream: false });
+      return this.toContainerStats(stats);
+    } catch (error) {
+      metrics.dockerErrors.inc({ operation: 'stats' });
+      logger.error('Failed to get container stats', {
+        containerId,
+        error: (error as Error).message,
       });
-      return containers.length;
+      return null;
+    }
+  }
+
+  // Docker pushes a sample about every second until the container stops
+  public watchContainerStats(
+    containerId: string,
+    onStats: (stats: ContainerStats) => void,
+    nodeName?: string
+  ): () => void {
+    let stopped = false;
+    let stream: Readable | null = null;
+
+    const connect = async (): Promise<void> => {
+      try {
+        const node = await this.resolveNode(containerId, nodeName);
+        if (!node || stopped) return;
+        const current = await node.docker.getContainer(containerId).stats({ stream: true }) as unknown as Readable;
+        if (stopped) {
+          current.destroy();
+          return;
+        }
+        stream = current;
+
+        // One JSON object per line, possibly split across chunks
+        let buffered = '';
+        current.on('data', (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          for (const line of lines.filter(entry => entry.trim())) {
+            try {
+              onStats(this.toContainerStats(JSON.parse(line)));
+            } catch (error) {
+              logger.warn('Ignoring malformed container stats', { containerId, error: (error as Error).message });
+            }
+          }
+        });
+        current.on('error', (error: Error) => {
+          logger.warn('Container stats stream failed', { containerId, error: error.message });
+        });
+      } catch (error) {
+        metrics.dockerErrors.inc({ operation: 'stats' });
+        logger.error('Failed to watch container stats', { containerId, error: (error as Error).message });
+      }
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      stream?.destroy();
+    };
+  }
+
+  // Same arithmetic as `docker stats`: CPU share since the previous sample,
+  // memory without the page cache
+  private toContainerStats(stats: Docker.ContainerStats): ContainerStats {
+    const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = (stats.cpu_stats.system_cpu_usage || 0) - (stats.precpu_stats.system_cpu_usage || 0);
+    const cpuCount = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+    const cache = stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0;
+    const networks = Object.values(stats.networks || {});
+    // cgroup v1 reports "Read"/"Write", v2 "read"/"write"
+    const blockIo = stats.blkio_stats?.io_service_bytes_recursive || [];
+    const blockBytes = (op: string): number => blockIo
+      .filter(entry => entry.op.toLowerCase() === op)
+      .reduce((total, entry) => total + entry.value, 0);
+
+    return {
+      cpuPercent: systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * cpuCount * 100 : 0,
+      memoryBytes: Math.max(0, (stats.memory_stats.usage || 0) - cache),
+      memoryLimitBytes: stats.memory_stats.limit || 0,
+      networkRxBytes: networks.reduce((total, network) => total + network.rx_bytes, 0),
+      networkTxBytes: networks.reduce((total, network) => total + network.tx_bytes, 0),
+      blockReadBytes: blockBytes('read'),
+      blockWriteBytes: blockBytes('write'),
+      pids: stats.pids_stats?.current || 0,
+      timestamp: stats.read,
+    };
+  }
+
+  public async getContainerLogs(
+    containerId: string,
+    options: ContainerLogOptions = {},
+    nodeName?: string
+  ): Promise<string | null> {
+    try {
+      const node = await this.resolveNode(containerId, nodeName);
+      if (!node) return null;
+      const output = await node.docker.getContainer(containerId).logs({
+        stdout: true,
+        stderr: true,
+        follow: false,
+        timestamps: options.timestamps === true,
+        ...(options.tail !== undefined ? { tail: options.tail } : {}),
+        ...(options.since !== undefined ? { since: options.since } : {}),
+      });
+      return this.demultiplexLogs(output);
     } catch (error) {
-      logger.error('Failed to get active containers count', {
+      metrics.dockerErrors.inc({ operation: 'logs' });
+      logger.error('Failed to get container logs', {
+        containerId,
         error: (error as Error).message,
       });
-      return 0;
+      return null;
     }
   }
 
-  public async cleanupOrphanedContainers(): Promise<number> {
+  public async getContainerUsage(
+    containerId: string,
+    downloadDir?: string,
+    nodeName?: string
+  ): Promise<ContainerUsage | null> {
     try {
-      const containers = await this.docker.listContainers({
+      const node = await this.resolveNode(containerId, nodeName);
+      if (!node) return null;
+      const container = node.docker.getContainer(containerId);
+
+      // Computing the layer size walks the container's files, so it is not
+      // cheap. SizeRw is only returned with size: true and missing from the typings.
+      const [listed] = await node.docker.listContainers({
         all: true,
-        filters: {
-          label: ['disposable-suite=true'],
-        },
+        size: true,
+        filters: { id: [containerId] },
+      }) as Array<Docker.ContainerInfo & { SizeRw?: number }>;
+      if (!listed) return null;
+      const stats = await this.getContainerStats(containerId, node.config.name);
+
+      return {
+        diskBytes: listed.SizeRw || 0,
+        downloadBytes: downloadDir ? await this.measureDirectory(container, downloadDir) : 0,
+        networkRxBytes: stats?.networkRxBytes || 0,
+        networkTxBytes: stats?.networkTxBytes || 0,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      metrics.dockerErrors.inc({ operation: 'usage' });
+      logger.error('Failed to get container usage', {
+        containerId,
+        error: (error as Error).message,
       });
+      return null;
+    }
+  }
 
-      let cleanedCount = 0;
-      for (const containerInfo of containers) {
-        const container = this.docker.getContainer(containerInfo.Id);
-        
-        try {
-          if (containerInfo.State === 'exited' || containerInfo.State === 'dead') {
-            await container.remove({ force: true });
-            cleanedCount++;
-            logger.info('Cleaned up orphaned container', { containerId: containerInfo.Id });
-          }
-        } catch (error) {
-          logger.error('Failed to cleanup orphaned container', {
-            containerId: containerInfo.Id,
-            error: (error as Error).message,
-          });
-        }
-      }
+  // Bytes used below the directory, per du inside the container
+  private async measureDirectory(container: Container, directory: string): Promise<number> {
+    const exec = await container.exec({ Cmd: ['du', '-sk', directory], AttachStdout: true, AttachStderr: false });
+    const stream = await exec.start({});
+    const chunks: Buffer[] = [];
+    await new Promise<void>((resolve, reject) => {
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
 
-      if (cleanedCount > 0) {
-        logger.info('Cleanup completed', { cleanedCount });
-      }
+    const kilobytes = parseInt(this.demultiplexLogs(Buffer.concat(chunks)), 10);
+    return Number.isNaN(kilobytes) ? 0 : kilobytes * 1024;
+  }
 
-      return cleanedCount;
+  // Containers run without a TTY, so stdout and stderr arrive as frames with
+  // an 8-byte header: stream type, 3 padding bytes, big-endian payload length
+  private demultiplexLogs(output: Buffer): string {
+    const chunks: Buffer[] = [];
+    let offset = 0;
+    while (offset + 8 <= output.length) {
+      const length = output.readUInt32BE(offset + 4);
+      chunks.push(output.subarray(offset + 8, offset + 8 + length));
+      offset += 8 + length;
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async countRunningContainers(node: DockerNode): Promise<number> {
+    const containers = await node.docker.listContainers({
+      filters: {
+        label: [`${MANAGED_LABEL}=true`],
+        status: ['running'],
+      },
+    });
+    return containers.length;
+  }
+
+  public async getActiveContainersCount(): Promise<number> {
+    try {
+      const loads = await this.getNodeLoads();
+      return loads.reduce((total, load) => total + load.running, 0);
     } catch (error) {
-      logger.error('Failed to cleanup orphaned containers', {
+      metrics.dockerErrors.inc({ operation: 'list' });
+      logger.error('Failed to get active containers count', {
         error: (error as Error).message,
       });
       return 0;
     }
   }
 
-  public async getSystemStats(): Promise<Record<string, any>> {
-    try {
-      const info = await this.docker.info();
-      const activeContainers = await this.getActiveContainersCount();
-      
+  // Unlike the other helpers this throws, so callers never mistake an
+  // unreachable daemon for "no containers"
+  public async listManagedContainers(nodeName?: string): Promise<ManagedContainer[]> {
+    const node = this.getNode(nodeName);
+    const containers = await node.docker.listContainers({
+      all: true,
+      filters: {
+        label: [`${MANAGED_LABEL}=true`],
+      },
+    });
+
+    return containers.map(container => {
+      const labels = container.Labels || {};
+      const networkName = labels[NETWORK_LABEL];
+      const published = (container.Ports || []).some(port => port.PublicPort);
+      const host = !published && networkName ? container.NetworkSettings?.Networks?.[networkName]?.IPAddress : undefined;
+
       return {
-        dockerVersion: info.ServerVersion,
-        containers: info.Containers,
-        activeContainers,
-        images: info.Images,
-        memory: info.MemTotal,
-        cpuCount: info.NCPU,
-        operatingSystem: info.OperatingSystem,
-        kernelVersion: info.KernelVersion,
+        id: container.Id,
+        node: node.config.name,
+        state: container.State,
+        labels,
+        createdAt: container.Created * 1000,
+        hostPorts: Object.fromEntries((container.Ports || [])
+          .filter(port => (host ? true : port.PublicPort))
+          .map(port => [`${port.PrivatePort}/${port.Type}`, host ? port.PrivatePort : port.PublicPort!])),
+        ...(host ? { host } : {}),
       };
+    });
+  }
+
+  public async cleanupOrphanedContainers(): Promise<number> {
+    let cleanedCount = 0;
+
+    for (const node of this.nodes.values()) {
+      try {
+        const containers = await node.docker.listContainers({
+          all: true,
+          filters: {
+            label: [`${MANAGED_LABEL}=true`],
+          },
+        });
+
+        for (const containerInfo of containers) {
+          const container = node.docker.getContainer(containerInfo.Id);
+          
+          try {
+            if (containerInfo.State === 'exited' || containerInfo.State === 'dead') {
+              await container.remove({ force: true });
+              cleanedCount++;
+              logger.info('Cleaned up orphaned container', { containerId: containerInfo.Id, node: node.config.name });
+            }
+          } catch (error) {
+            metrics.dockerErrors.inc({ operation: 'remove' });
+            logger.error('Failed to cleanup orphaned container', {
+              containerId: containerInfo.Id,
+              node: node.config.name,
+              error: (error as Error).message,
+            });
+          }
+        }
+      } catch (error) {
+        metrics.dockerErrors.inc({ operation: 'list' });
+        logger.error('Failed to cleanup orphaned containers', {
+          node: node.config.name,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    for (const node of this.nodes.values()) {
+      await this.cleanupOrphanedNetworks(node);
+    }
+
+    if (cleanedCount > 0) {
+      logger.info('Cleanup completed', { cleanedCount });
+    }
+
+    return cleanedCount;
+  }
+
+  // Networks of containers that died on their own (AutoRemove) are left
+  // behind; young ones may belong to a start in progress
+  private async cleanupOrphanedNetworks(node: DockerNode): Promise<void> {
+    try {
+      const networks = await node.docker.listNetworks({
+        filters: { label: [`${MANAGED_LABEL}=true`] },
+      });
+
+      for (const summary of networks) {
+        if (Date.now() - Date.parse(summary.Created) < config.reconciler.graceMs) continue;
+
+        const network: NetworkInspectInfo = await node.docker.getNetwork(summary.Id).inspect();
+        const attached = Object.entries(network.Containers || {})
+          .filter(([id, endpoint]) => !this.isApiContainer(node, id, endpoint.Name));
+        if (attached.length === 0) {
+          await this.removeSessionNetwork(node, summary.Name);
+        }
+      }
     } catch (error) {
-      logger.error('Failed to get Docker system stats', {
+      metrics.dockerErrors.inc({ operation: 'networks' });
+      logger.error('Failed to cleanup orphaned networks', {
+        node: node.config.name,
         error: (error as Error).message,
       });
-      return {};
     }
   }
 
-  private async ensureImageExists(image: string): Promise<void> {
+  private isApiContainer(node: DockerNode, id: string, name: string): boolean {
+    const apiContainer = node.config.apiContainer;
+    return !!apiContainer && (name === apiContainer || id.startsWith(apiContainer));
+  }
+
+  public async getSystemStats(): Promise<Record<string, any>> {
+    const nodes: Record<string, any> = {};
+
+    for (const node of this.nodes.values()) {
+      try {
+        const info = await node.docker.info();
+        const activeContainers = await this.countRunningContainers(node);
+        
+        nodes[node.config.name] = {
+          dockerVersion: info.ServerVersion,
+          containers: info.Containers,
+          activeContainers,
+          capacity: node.config.capacity,
+          labels: node.config.labels,
+          images: info.Images,
+          memory: info.MemTotal,
+          cpuCount: info.NCPU,
+          operatingSystem: info.OperatingSystem,
+          kernelVersion: info.KernelVersion,
+        };
+      } catch (error) {
+        metrics.dockerErrors.inc({ operation: 'info' });
+        logger.error('Failed to get Docker system stats', {
+          node: node.config.name,
+          error: (error as Error).message,
+        });
+        nodes[node.config.name] = { reachable: false };
+      }
+    }
+
+    return { placementStrategy: config.docker.placementStrategy, nodes };
+  }
+
+  // Reports containers of this suite that exit on any node, for whatever
+  // reason. Event streams are reopened after errors until the returned
+  // function is called.
+  public watchContainerExits(onExit: ContainerExitListener): () => void {
+    const stops = Array.from(this.nodes.values()).map(node => this.watchNodeExits(node, onExit));
+    return () => {
+      stops.forEach(stop => stop());
+    };
+  }
+
+  private watchNodeExits(node: DockerNode, onExit: ContainerExitListener): () => void {
+    let stopped = false;
+    let stream: Readable | null = null;
+    let retryTimer: NodeJS.Timeout | null = null;
+
+    const reconnect = (): void => {
+      if (stopped || retryTimer) return;
+      stream = null;
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect();
+      }, this.retryDelay * 5);
+    };
+
+    const connect = async (): Promise<void> => {
+      try {
+        // The event stream is the daemon's HTTP response, a Node Readable
+        const current = await node.docker.getEvents({
+          filters: {
+            type: ['container'],
+            event: ['die'],
+            label: [`${MANAGED_LABEL}=true`],
+          },
+        }) as Readable;
+        if (stopped) {
+          current.destroy();
+          return;
+        }
+        stream = current;
+
+        // Docker sends one JSON object per line, possibly split across chunks
+        let buffered = '';
+        current.on('data', (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          for (const line of lines.filter(entry => entry.trim())) {
+            try {
+              const event = JSON.parse(line);
+              onExit(event.id, parseInt(event.Actor?.Attributes?.exitCode || '0', 10), node.config.name);
+            } catch (error) {
+              logger.warn('Ignoring malformed Docker event', { error: (error as Error).message });
+            }
+          }
+        });
+        current.on('error', (error: Error) => {
+          logger.warn('Docker event stream failed, reconnecting', { node: node.config.name, error: error.message });
+          if (stream === current) reconnect();
+        });
+        current.on('end', () => {
+          if (stream === current) reconnect();
+        });
+      } catch (error) {
+        metrics.dockerErrors.inc({ operation: 'events' });
+        logger.error('Failed to subscribe to Docker events', { node: node.config.name, error: (error as Error).message });
+        reconnect();
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      stream?.destroy();
+      stream = null;
+    };
+  }
+
+  private async ensureImageExists(node: DockerNode, image: string): Promise<void> {
     try {
-      await this.docker.getImage(image).inspect();
-      logger.debug('Image exists locally', { image });
+      await node.docker.getImage(image).inspect();
+      logger.debug('Image exists locally', { image, node: node.config.name });
     } catch (error) {
-      logger.info('Pulling image', { image });
-      await this.docker.pull(image);
-      logger.info('Image pulled successfully', { image });
+      logger.info('Pulling image', { image, node: node.config.name });
+      const stream = await node.docker.pull(image);
+      // pull() resolves with the progress stream; the image is there once it ends
+      await new Promise<void>((resolve, reject) => {
+        node.docker.modem.followProgress(stream, (pullError) => (pullError ? reject(pullError) : resolve()));
+      });
+      logger.info('Image pulled successfully', { image, node: node.config.name });
     }
   }
 
@@ -317,43 +995,30 @@ class DockerService {
     }
   }
 
-  private parseMemoryLimit(memoryLimit: string): number {
-    const units: Record<string, number> = {
-      'b': 1,
-      'k': 1024,
-      'm': 1024 * 1024,
-      'g': 1024 * 1024 * 1024,
-    };
-
-    const match = memoryLimit.match(/^(\d+)([bkmg])?$/i);
-    if (!match) {
-      throw new Error(`Invalid memory limit format: ${memoryLimit}`);
-    }
-
-    const value = parseInt(match[1]!, 10);
-    const unit = (match[2] || 'b').toLowerCase();
-    
-    return value * units[unit]!;
-  }
-
+  // Healthy while at least one node can take containers
   public async healthCheck(): Promise<boolean> {
-    try {
-      await this.docker.ping();
-      return true;
-    } catch (error) {
-      logger.error('Docker health check failed', {
-        error: (error as Error).message,
-      });
-      return false;
-    }
+    const results = await Promise.all(Array.from(this.nodes.values()).map(async (node) => {
+      try {
+        await node.docker.ping();
+        return true;
+      } catch (error) {
+        metrics.dockerErrors.inc({ operation: 'ping' });
+        logger.error('Docker health check failed', {
+          node: node.config.name,
+          error: (error as Error).message,
+        });
+        return false;
+      }
+    }));
+    return results.some(Boolean);
   }
 
   // Wait for Docker to assign a host port after starting the container
-  private async waitForHostPort(container: Container, timeoutMs = 5000): Promise<number> {
+  private async waitForHostPort(container: Container, port: string, timeoutMs = 5000): Promise<number> {
     const start = Date.now();
     while (Date.now() - start < timeoutMs) {
       const info = await container.inspect();
-      const portInfo = info.NetworkSettings.Ports['3000/tcp'];
+      const portInfo = info.NetworkSettings.Ports[port];
       const hostPort = Array.isArray(portInfo) && portInfo[0]?.HostPort ? parseInt(portInfo[0].HostPort, 10) : 0;
       if (hostPort > 0) {
         return hostPort;
@@ -362,6 +1027,4 @@ class DockerService {
     }
     return 0; // fallback if not assigned in time
   }
-}
-
-export default new DockerService(); 
\ No newline at end of file
+} 
\ No newline at end of file
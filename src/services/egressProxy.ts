@@ -0,0 +1,215 @@
+import http from 'http';
+import net from 'net';
+import dns from 'dns';
+import os from 'os';
+import { Duplex } from 'stream';
+import { Session } from '../types';
+import profileCatalog from './profileCatalog';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+import { isPrivateAddress, matchesDomain, needsEgressProxy, resolveEgress } from '../utils/egress';
+
+class EgressDeniedError extends Error {}
+
+// Forward proxy for sessions whose profile restricts egress. Their network has
+// no route out, so this is the only way to the internet. The client is
+// identified by its address on the session network; destinations are resolved
+// here and the checked address is the one connected to, so DNS answers cannot
+// change between the check and the connection.
+//
+// The API container joins every session network to reach the sessions, so
+// the proxy listens only on its addresses there, and the API and monitoring
+// servers refuse connections made to those addresses.
+class EgressProxy {
+  private server: http.Server | null = null;
+  // Session network name -> the API's address on it
+  private sessionAddresses: Map<string, string> = new Map();
+  private listeners: Map<string, net.Server> = new Map();
+
+  public isEnabled(): boolean {
+    return config.runtime === 'docker' && profileCatalog.list().some(profile => needsEgressProxy(resolveEgress(profile)));
+  }
+
+  public start(): void {
+    if (!this.isEnabled() || this.server) {
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.forwardRequest(req, res);
+    });
+    this.server.on('connect', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.tunnel(req, socket, head);
+    });
+    for (const address of this.sessionAddresses.values()) {
+      this.listen(address);
+    }
+  }
+
+  // Only addresses of this process count: the apiContainer of another node
+  // runs its own proxy
+  public addSessionNetwork(network: string, address: string): void {
+    const local = Object.values(os.networkInterfaces()).some(entries =>
+      (entries || []).some(entry => entry.address === address));
+    if (!local) {
+      return;
+    }
+    this.sessionAddresses.set(network, address);
+    if (this.server) {
+      this.listen(address);
+    }
+  }
+
+  public removeSessionNetwork(network: string): void {
+    const address = this.sessionAddresses.get(network);
+    if (!address) {
+      return;
+    }
+    this.sessionAddresses.delete(network);
+    this.listeners.get(address)?.close();
+    this.listeners.delete(address);
+  }
+
+  // Drops connections that reach the server through a session network
+  public refuseSessionNetworks(server: net.Server): void {
+    server.on('connection', (socket: net.Socket) => {
+      if (this.isSessionAddress(socket.localAddress)) {
+        socket.destroy();
+      }
+    });
+  }
+
+  public shutdown(): Promise<void> {
+    for (const listener of this.listeners.values()) {
+      listener.close();
+    }
+    this.listeners.clear();
+    return new Promise(resolve => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server.closeAllConnections();
+      this.server = null;
+    });
+  }
+
+  private listen(address: string): void {
+    if (this.listeners.has(address)) {
+      return;
+    }
+    const port = config.docker.network.egressProxyPort;
+    const listener = net.createServer(socket => {
+      this.server?.emit('connection', socket);
+    });
+    listener.on('error', (error: Error) => {
+      logger.error('Failed to start egress proxy listener', { address, port, error: error.message });
+      this.listeners.delete(address);
+    });
+    listener.listen(port, address, () => {
+      logger.info('Egress proxy listening', { address, port });
+    });
+    this.listeners.set(address, listener);
+  }
+
+  private isSessionAddress(localAddress: string | undefined): boolean {
+    const address = (localAddress || '').replace(/^::ffff:/, '');
+    return [...this.sessionAddresses.values()].includes(address);
+  }
+
+  // Plain HTTP: the request line carries an absolute URL
+  private async forwardRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let target: URL;
+    try {
+      target = new URL(req.url || '');
+    } catch (error) {
+      res.writeHead(400).end('Absolute URL required');
+      return;
+    }
+
+    try {
+      const address = await this.authorize(req.socket.remoteAddress, target.hostname.replace(/^\[|\]$/g, ''));
+      const upstream = http.request({
+        host: address,
+        port: target.port || 80,
+        method: req.method,
+        path: `${target.pathname}${target.search}`,
+        headers: { ...req.headers, host: target.host },
+      }, (response) => {
+        res.writeHead(response.statusCode || 502, response.headers);
+        response.pipe(res);
+      });
+      upstream.on('error', () => {
+        if (!res.headersSent) res.writeHead(502);
+        res.end();
+      });
+      req.pipe(upstream);
+    } catch (error) {
+      res.writeHead(error instanceof EgressDeniedError ? 403 : 502).end((error as Error).message);
+    }
+  }
+
+  // HTTPS and anything else: CONNECT host:port, then raw bytes both ways
+  private async tunnel(req: http.IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    try {
+      const target = new URL(`http://${req.url || ''}`);
+      const hostname = target.hostname.replace(/^\[|\]$/g, '');
+      const address = await this.authorize(req.socket.remoteAddress, hostname);
+      const upstream = net.connect(parseInt(target.port || '443', 10), address, () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+      upstream.on('error', () => {
+        socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      });
+      socket.on('error', () => {
+        upstream.destroy();
+      });
+    } catch (error) {
+      const status = error instanceof EgressDeniedError ? '403 Forbidden' : '502 Bad Gateway';
+      socket.end(`HTTP/1.1 ${status}\r\n\r\n`);
+    }
+  }
+
+  // Resolves the destination and returns the address to connect to, or throws
+  private async authorize(remoteAddress: string | undefined, hostname: string): Promise<string> {
+    const session = this.findSession(remoteAddress);
+    if (!session) {
+      logger.warn('Egress proxy refused unknown client', { remoteAddress, hostname });
+      throw new EgressDeniedError('Unknown client');
+    }
+
+    const egress = resolveEgress(profileCatalog.get(session.profile));
+    const deny = (reason: string): never => {
+      logger.warn('Egress blocked', { containerId: session.containerId, hostname, policy: egress.policy, reason });
+      throw new EgressDeniedError(`Egress to ${hostname} blocked: ${reason}`);
+    };
+
+    if (egress.policy === 'none') {
+      deny('egress disabled');
+    }
+    if (egress.policy === 'allowlist' && !matchesDomain(hostname, egress.allowedDomains || [])) {
+      deny('domain not allowed');
+    }
+
+    const addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      deny('private address');
+    }
+
+    return addresses[0]!;
+  }
+
+  private findSession(remoteAddress: string | undefined): Session | undefined {
+    const address = (remoteAddress || '').replace(/^::ffff:/, '');
+    return sessionStore.getAllSessions().find(session => session.host === address);
+  }
+}
+
+export default new EgressProxy();
\ No newline at end of file
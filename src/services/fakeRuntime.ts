@@ -0,0 +1,250 @@
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ContainerExitListener,
+  ContainerInfo,
+  ContainerLogOptions,
+  ContainerRuntime,
+  ContainerStats,
+  ContainerUsage,
+  ManagedContainer,
+  SessionProfile,
+  StartContainerOptions,
+} from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { baseLabels } from '../utils/labels';
+
+const FAKE_NODE = 'fake';
+const FAKE_HOST = '127.0.0.1';
+
+export interface FakeRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+}
+
+interface FakeContainer {
+  id: string;
+  profile: string;
+  labels: Record<string, string>;
+  createdAt: number;
+  hostPorts: Record<string, number>;
+  server: http.Server;
+  logs: Array<{ time: number; line: string }>;
+  requests: FakeRequest[];
+  usage: Omit<ContainerUsage, 'timestamp'>;
+}
+
+// Runs "containers" in-process: each one is a small HTTP server on a free
+// local port answering every request with 200, so readiness probes and the
+// proxy work without Docker. Meant for tests and local development
+// (CONTAINER_RUNTIME=fake); nothing survives a restart.
+export class FakeRuntime implements ContainerRuntime {
+  private containers: Map<string, FakeContainer> = new Map();
+  private exitListeners: Set<ContainerExitListener> = new Set();
+  private statsTimers: Set<NodeJS.Timeout> = new Set();
+
+  public async startContainer(profile: SessionProfile, options: StartContainerOptions = {}): Promise<ContainerInfo> {
+    options.onPhase?.('pulling');
+    options.onPhase?.('starting');
+
+    const id = uuidv4().replace(/-/g, '');
+    const server = http.createServer((req, res) => {
+      this.log(id, `${req.method} ${req.url}`);
+      this.containers.get(id)?.requests.push({ method: req.method || 'GET', url: req.url || '/', headers: req.headers });
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(`<html><body>Fake ${profile.name} session ${id}</body></html>`);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, FAKE_HOST, () => resolve());
+    });
+
+    const hostPort = (server.address() as AddressInfo).port;
+    this.containers.set(id, {
+      id,
+      profile: profile.name,
+      labels: {
+        ...baseLabels(profile.name, config.instanceId),
+        ...options.labels,
+      },
+      createdAt: Date.now(),
+      hostPorts: { [profile.ports[0]!]: hostPort },
+      server,
+      logs: [],
+      requests: [],
+      usage: { diskBytes: 0, downloadBytes: 0, networkRxBytes: 0, networkTxBytes: 0 },
+    });
+    this.log(id, `started ${profile.image}`);
+
+    logger.info('Fake container started', { containerId: id, hostPort, profile: profile.name });
+    return { id, hostPort, status: 'running', node: FAKE_NODE };
+  }
+
+  public async stopContainer(containerId: string): Promise<boolean> {
+    const container = this.containers.get(containerId);
+    if (container) {
+      this.containers.delete(containerId);
+      await this.closeServer(container);
+      logger.info('Fake container stopped', { containerId });
+    }
+    return true;
+  }
+
+  // Makes a container exit on its own, as a crash or OOM kill would
+  public async crashContainer(containerId: string, exitCode = 137): Promise<void> {
+    const container = this.containers.get(containerId);
+    if (!container) return;
+
+    this.containers.delete(containerId);
+    await this.closeServer(container);
+    for (const listener of this.exitListeners) {
+      listener(containerId, exitCode, FAKE_NODE);
+    }
+  }
+
+  // Sets what getContainerUsage reports, e.g. to push a session over a limit
+  public setUsage(containerId: string, usage: Partial<Omit<ContainerUsage, 'timestamp'>>): void {
+    const container = this.containers.get(containerId);
+    if (container) {
+      Object.assign(container.usage, usage);
+    }
+  }
+
+  // What the container's server received, e.g. through the proxy
+  public getReceivedRequests(containerId: string): FakeRequest[] {
+    return this.containers.get(containerId)?.requests || [];
+  }
+
+  public async getContainerInfo(containerId: string, port = '3000/tcp'): Promise<ContainerInfo | null> {
+    const container = this.containers.get(containerId);
+    if (!container) return null;
+    return {
+      id: containerId,
+      hostPort: container.hostPorts[port] || 0,
+      status: 'running',
+      node: FAKE_NODE,
+    };
+  }
+
+  public async listManagedContainers(): Promise<ManagedContainer[]> {
+    return Array.from(this.containers.values()).map(container => ({
+      id: container.id,
+      node: FAKE_NODE,
+      state: 'running',
+      labels: container.labels,
+      createdAt: container.createdAt,
+      hostPorts: container.hostPorts,
+    }));
+  }
+
+  public async getContainerStats(containerId: string): Promise<ContainerStats | null> {
+    const container = this.containers.get(containerId);
+    if (!container) return null;
+    return {
+      cpuPercent: 0,
+      memoryBytes: 0,
+      memoryLimitBytes: 0,
+      networkRxBytes: container.usage.networkRxBytes,
+      networkTxBytes: container.usage.networkTxBytes,
+      blockReadBytes: 0,
+      blockWriteBytes: container.usage.diskBytes,
+      pids: 1,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // Samples right away and then every second, like Docker's stats stream
+  public watchContainerStats(containerId: string, onStats: (stats: ContainerStats) => void): () => void {
+    const sample = async (): Promise<void> => {
+      const stats = await this.getContainerStats(containerId);
+      if (stats) {
+        onStats(stats);
+      } else {
+        stop();
+      }
+    };
+    const timer = setInterval(sample, 1000);
+    const stop = (): void => {
+      clearInterval(timer);
+      this.statsTimers.delete(timer);
+    };
+
+    this.statsTimers.add(timer);
+    sample();
+    return stop;
+  }
+
+  public async getContainerUsage(containerId: string): Promise<ContainerUsage | null> {
+    const container = this.containers.get(containerId);
+    if (!container) return null;
+    return { ...container.usage, timestamp: new Date().toISOString() };
+  }
+
+  public async getContainerLogs(containerId: string, options: ContainerLogOptions = {}): Promise<string | null> {
+    const container = this.containers.get(containerId);
+    if (!container) return null;
+
+    const since = (options.since || 0) * 1000;
+    const entries = container.logs.filter(entry => entry.time >= since);
+    return entries
+      .slice(options.tail !== undefined ? Math.max(entries.length - options.tail, 0) : 0)
+      .map(entry => (options.timestamps ? `${new Date(entry.time).toISOString()} ${entry.line}` : entry.line))
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  public getNodeNames(): string[] {
+    return [FAKE_NODE];
+  }
+
+  public getContainerHost(): string {
+    return FAKE_HOST;
+  }
+
+  public async getActiveContainersCount(): Promise<number> {
+    return this.containers.size;
+  }
+
+  // Fake containers never linger after exiting
+  public async cleanupOrphanedContainers(): Promise<number> {
+    return 0;
+  }
+
+  public async getSystemStats(): Promise<Record<string, any>> {
+    return { runtime: 'fake', nodes: { [FAKE_NODE]: { activeContainers: this.containers.size } } };
+  }
+
+  public watchContainerExits(onExit: ContainerExitListener): () => void {
+    this.exitListeners.add(onExit);
+    return () => {
+      this.exitListeners.delete(onExit);
+    };
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  // Stops every container without reporting exits
+  public async reset(): Promise<void> {
+    const containers = Array.from(this.containers.values());
+    this.containers.clear();
+    this.statsTimers.forEach(timer => clearInterval(timer));
+    this.statsTimers.clear();
+    await Promise.all(containers.map(container => this.closeServer(container)));
+  }
+
+  private log(containerId: string, line: string): void {
+    this.containers.get(containerId)?.logs.push({ time: Date.now(), line });
+  }
+
+  private closeServer(container: FakeContainer): Promise<void> {
+    return new Promise(resolve => {
+      container.server.close(() => resolve());
+      container.server.closeAllConnections();
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import sessionStore from '../models/sessionStore';
+
+// Container start phases timed by DockerService
+export type StartPhase = 'pull' | 'create' | 'start' | 'port_wait';
+
+const START_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300];
+
+// Prometheus metrics of this process. Each instance has its own registry, so
+// the test harness can load the app repeatedly without clashing registrations.
+class Metrics {
+  public readonly registry = new Registry();
+
+  public readonly sessionsCreated = new Counter({
+    name: 'disposable_sessions_created_total',
+    help: 'Sessions created, by profile and whether a warm pool container was used',
+    labelNames: ['profile', 'from_pool'] as const,
+    registers: [this.registry],
+  });
+
+  public readonly sessionsEnded = new Counter({
+    name: 'disposable_sessions_ended_total',
+    help: 'Sessions ended, by end reason',
+    labelNames: ['reason'] as const,
+    registers: [this.registry],
+  });
+
+  public readonly sessionStartDuration = new Histogram({
+    name: 'disposable_session_start_duration_seconds',
+    help: 'Time from start-session until the session was created',
+    labelNames: ['profile', 'from_pool'] as const,
+    buckets: START_BUCKETS,
+    registers: [this.registry],
+  });
+
+  public readonly containerStartPhaseDuration = new Histogram({
+    name: 'disposable_container_start_phase_duration_seconds',
+    help: 'Duration of each container start phase',
+    labelNames: ['phase'] as const,
+    buckets: START_BUCKETS,
+    registers: [this.registry],
+  });
+
+  public readonly dockerErrors = new Counter({
+    name: 'disposable_docker_errors_total',
+    help: 'Failed Docker API operations',
+    labelNames: ['operation'] as const,
+    registers: [this.registry],
+  });
+
+  public readonly rateLimitRejections = new Counter({
+    name: 'disposable_rate_limit_rejections_total',
+    help: 'Requests rejected by a rate limiter',
+    labelNames: ['limiter'] as const,
+    registers: [this.registry],
+  });
+
+  public readonly proxyRequests = new Counter({
+    name: 'disposable_proxy_requests_total',
+    help: 'Requests proxied to session containers, by response status class',
+    labelNames: ['status'] as const,
+    registers: [this.registry],
+  });
+
+  public readonly proxyBytes = new Counter({
+    name: 'disposable_proxy_bytes_total',
+    help: 'Bytes proxied to (upstream) and from (downstream) session containers',
+    labelNames: ['direction'] as const,
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+
+    // Read when scraped, so they never drift from the store
+    new Gauge({
+      name: 'disposable_sessions_active',
+      help: 'Sessions currently active',
+      registers: [this.registry],
+      async collect() {
+        this.set(await sessionStore.getActiveSessionsCount());
+      },
+    });
+    new Gauge({
+      name: 'disposable_redis_connected',
+      help: 'Whether the session store is connected to Redis (0 when persistence is off)',
+      registers: [this.registry],
+      collect() {
+        this.set(sessionStore.getStats()['redisConnected'] ? 1 : 0);
+      },
+    });
+  }
+
+  public get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  public render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  // Times a phase until its promise settles, failures included
+  public async timePhase<T>(phase: StartPhase, task: Promise<T>): Promise<T> {
+    const end = this.containerStartPhaseDuration.startTimer({ phase });
+    try {
+      return await task;
+    } finally {
+      end();
+    }
+  }
+}
+
+export default new Metrics();
\ No newline at end of file
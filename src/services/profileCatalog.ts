@@ -0,0 +1,89 @@
+import { EgressPolicy, SessionProfile } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { parseMemoryLimit } from '../utils/resources';
+import { matchesSelector } from '../utils/placement';
+import { needsEgressProxy, resolveEgress } from '../utils/egress';
+import { resolveHardening, validateHardening } from '../utils/hardening';
+import { resolveLimits, validateLimits } from '../utils/limits';
+
+const PORT_PATTERN = /^\d+\/(tcp|udp)$/;
+const EGRESS_POLICIES: EgressPolicy[] = ['allow-all', 'deny-private', 'allowlist', 'none'];
+
+class ProfileCatalog {
+  private profiles: Map<string, SessionProfile>;
+
+  constructor() {
+    this.profiles = new Map(config.docker.profiles.map(profile => [profile.name, profile]));
+    this.validate();
+    logger.info('Session profiles loaded', {
+      profiles: Array.from(this.profiles.keys()),
+      defaultProfile: config.docker.defaultProfile,
+    });
+  }
+
+  public list(): SessionProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  public has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  public get(name?: string): SessionProfile {
+    const profile = this.profiles.get(name || config.docker.defaultProfile);
+    if (!profile) {
+      throw new Error(`Unknown session profile: ${name}`);
+    }
+    return profile;
+  }
+
+  // Misconfigured profiles fail at startup rather than on the first session
+  private validate(): void {
+    if (!this.profiles.has(config.docker.defaultProfile)) {
+      throw new Error(`Default session profile "${config.docker.defaultProfile}" is not defined`);
+    }
+
+    for (const profile of this.profiles.values()) {
+      const problems: string[] = [];
+      if (!profile.image) problems.push('image is required');
+      if (!Array.isArray(profile.ports) || profile.ports.length === 0) {
+        problems.push('at least one port is required');
+      } else if (!profile.ports.every(port => PORT_PATTERN.test(port))) {
+        problems.push('ports must look like "3000/tcp"');
+      }
+      if (!Array.isArray(profile.environment)) problems.push('environment must be an array');
+      try {
+        parseMemoryLimit(profile.memoryLimit);
+      } catch (error) {
+        problems.push((error as Error).message);
+      }
+      if (!(profile.cpuLimit > 0)) problems.push('cpuLimit must be positive');
+      if (!(profile.shmSize > 0)) problems.push('shmSize must be positive');
+      if (!(profile.maxDurationMs >= 60000)) problems.push('maxDurationMs must be at least 60000');
+      const nodes = config.docker.nodes.filter(node => matchesSelector(node.labels, profile.nodeSelector));
+      if (nodes.length === 0) {
+        problems.push('nodeSelector matches no Docker node');
+      }
+      const egress = resolveEgress(profile);
+      if (!EGRESS_POLICIES.includes(egress.policy)) {
+        problems.push(`egress policy must be one of ${EGRESS_POLICIES.join(', ')}`);
+      } else if (egress.policy === 'allowlist' && !(egress.allowedDomains && egress.allowedDomains.length > 0)) {
+        problems.push('allowlist egress needs allowedDomains');
+      }
+      // Restricted sessions only reach the internet through the API's egress proxy
+      if (needsEgressProxy(egress) && config.runtime === 'docker' &&
+          (config.docker.network.mode !== 'per-session' || nodes.some(node => !node.apiContainer))) {
+        problems.push('restricted egress needs CONTAINER_NETWORK_MODE=per-session and an apiContainer on every node it may run on');
+      }
+      problems.push(...validateHardening(resolveHardening(profile)));
+      problems.push(...validateLimits(resolveLimits(profile)));
+
+      if (problems.length > 0) {
+        throw new Error(`Invalid session profile "${profile.name}": ${problems.join(', ')}`);
+      }
+    }
+  }
+}
+
+export default new ProfileCatalog();
@@ -0,0 +1,469 @@
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthIdentity, QuotaLimits, QuotaName, QuotaReservation, QuotaScope, Session } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+
+const DAY_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+export class QuotaExceededError extends Error {
+  public readonly statusCode: 403 | 429;
+
+  constructor(
+    public readonly quota: QuotaName,
+    public readonly scope: QuotaScope,
+    public readonly limit: number,
+    public readonly current: number
+  ) {
+    super(`${scope === 'user' ? 'User' : 'Tenant'} quota exceeded: ${quota} (limit ${limit})`);
+    this.name = 'QuotaExceededError';
+    // Running out of extensions is final for the session; the others free up over time
+    this.statusCode = quota === 'extensions' ? 403 : 429;
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return { quota: this.quota, scope: this.scope, limit: this.limit, current: this.current };
+  }
+}
+
+interface QuotaSubject {
+  scope: QuotaScope;
+  id: string;
+  limits: QuotaLimits;
+}
+
+// Outcome of a check-and-reserve: index of the subject that failed and which quota
+type QuotaCheck = { ok: true } | { ok: false; subject: number; quota: QuotaName; current: number };
+
+interface QuotaBackend {
+  reserve(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<QuotaCheck>;
+  extend(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number, maxExtensions: number): Promise<QuotaCheck>;
+  revertExtension(subjects: QuotaSubject[], member: string, previousExpiresAt: number, minutes: number): Promise<void>;
+  release(subjects: QuotaSubject[], member: string, refundMinutes: number): Promise<void>;
+  // Charges (positive) or refunds (negative) minutes without checking limits
+  move(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<void>;
+}
+
+const QUOTA_NAMES: QuotaName[] = ['concurrent-sessions', 'session-minutes', 'extensions'];
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+const concurrentKey = (subject: QuotaSubject): string => `quota:concurrent:${subject.scope}:${subject.id}`;
+const minutesKey = (subject: QuotaSubject, day = today()): string =>
+  `quota:minutes:${subject.scope}:${subject.id}:${day}`;
+const extensionsKey = (member: string): string => `quota:extensions:${member}`;
+// Day whose minutes a reservation was charged to, for refunds after midnight
+const chargedOnKey = (member: string): string => `quota:charged-on:${member}`;
+
+// Concurrency is tracked as a sorted set of reservations scored by expiry, so
+// reservations leaked by a crash age out on their own.
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local member = ARGV[2]
+local expiresAt = tonumber(ARGV[3])
+local minutes = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+local day = ARGV[6]
+local subjects = (#KEYS - 1) / 2
+for i = 0, subjects - 1 do
+  local concurrentLimit = tonumber(ARGV[7 + i * 2])
+  local minutesLimit = tonumber(ARGV[8 + i * 2])
+  redis.call('ZREMRANGEBYSCORE', KEYS[i * 2 + 2], '-inf', now)
+  local active = redis.call('ZCARD', KEYS[i * 2 + 2])
+  if concurrentLimit > 0 and active >= concurrentLimit then
+    return {i, 0, active}
+  end
+  local used = tonumber(redis.call('GET', KEYS[i * 2 + 3]) or '0')
+  if minutesLimit > 0 and used + minutes > minutesLimit then
+    return {i, 1, used}
+  end
+end
+redis.call('SET', KEYS[1], day, 'EX', ttl)
+for i = 0, subjects - 1 do
+  redis.call('ZADD', KEYS[i * 2 + 2], expiresAt, member)
+  redis.call('INCRBY', KEYS[i * 2 + 3], minutes)
+  redis.call('EXPIRE', KEYS[i * 2 + 3], ttl)
+end
+return {-1, 0, 0}
+`;
+
+const EXTEND_SCRIPT = `
+local member = ARGV[1]
+local expiresAt = tonumber(ARGV[2])
+local minutes = tonumber(ARGV[3])
+local ttl = tonumber(ARGV[4])
+local maxExtensions = tonumber(ARGV[5])
+local subjects = (#KEYS - 1) / 2
+local extensions = tonumber(redis.call('GET', KEYS[1]) or '0')
+if maxExtensions > 0 and extensions >= maxExtensions then
+  return {0, 2, extensions}
+end
+for i = 0, subjects - 1 do
+  local minutesLimit = tonumber(ARGV[6 + i])
+  local used = tonumber(redis.call('GET', KEYS[i * 2 + 3]) or '0')
+  if minutesLimit > 0 and used + minutes > minutesLimit then
+    return {i, 1, used}
+  end
+end
+redis.call('INCR', KEYS[1])
+redis.call('EXPIRE', KEYS[1], ttl)
+for i = 0, subjects - 1 do
+  redis.call('ZADD', KEYS[i * 2 + 2], 'XX', expiresAt, member)
+  redis.call('INCRBY', KEYS[i * 2 + 3], minutes)
+  redis.call('EXPIRE', KEYS[i * 2 + 3], ttl)
+end
+return {-1, 0, 0}
+`;
+
+class RedisQuotaBackend implements QuotaBackend {
+  constructor(private redis: Redis) {}
+
+  public async reserve(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<QuotaCheck> {
+    const day = today();
+    const keys = [
+      chargedOnKey(member),
+      ...subjects.flatMap(subject => [concurrentKey(subject), minutesKey(subject, day)]),
+    ];
+    const limits = subjects.flatMap(subject => [
+      subject.limits.maxConcurrentSessions,
+      subject.limits.maxSessionMinutesPerDay,
+    ]);
+    const result = await this.redis.eval(
+      RESERVE_SCRIPT, keys.length, ...keys, Date.now(), member, expiresAt, minutes, DAY_TTL_SECONDS, day, ...limits
+    );
+    return this.toCheck(result);
+  }
+
+  public async extend(
+    subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number, maxExtensions: number
+  ): Promise<QuotaCheck> {
+    const keys = [extensionsKey(member), ...subjects.flatMap(subject => [concurrentKey(subject), minutesKey(subject)])];
+    const limits = subjects.map(subject => subject.limits.maxSessionMinutesPerDay);
+    const result = await this.redis.eval(
+      EXTEND_SCRIPT, keys.length, ...keys, member, expiresAt, minutes, DAY_TTL_SECONDS, maxExtensions, ...limits
+    );
+    return this.toCheck(result);
+  }
+
+  public async revertExtension(
+    subjects: QuotaSubject[], member: string, previousExpiresAt: number, minutes: number
+  ): Promise<void> {
+    const pipeline = this.redis.multi().decr(extensionsKey(member));
+    for (const subject of subjects) {
+      pipeline.zadd(concurrentKey(subject), 'XX', previousExpiresAt, member);
+      pipeline.decrby(minutesKey(subject), minutes);
+    }
+    await pipeline.exec();
+  }
+
+  public async release(subjects: QuotaSubject[], member: string, refundMinutes: number): Promise<void> {
+    const day = await this.redis.get(chargedOnKey(member)) || today();
+    const pipeline = this.redis.multi().del(extensionsKey(member), chargedOnKey(member));
+    for (const subject of subjects) {
+      pipeline.zrem(concurrentKey(subject), member);
+      if (refundMinutes > 0) {
+        pipeline.decrby(minutesKey(subject, day), refundMinutes);
+      }
+    }
+    await pipeline.exec();
+  }
+
+  public async move(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<void> {
+    const day = minutes < 0 ? await this.redis.get(chargedOnKey(member)) || today() : today();
+    const pipeline = this.redis.multi();
+    for (const subject of subjects) {
+      pipeline.zadd(concurrentKey(subject), 'XX', expiresAt, member);
+      if (minutes !== 0) {
+        pipeline.incrby(minutesKey(subject, day), minutes).expire(minutesKey(subject, day), DAY_TTL_SECONDS);
+      }
+    }
+    await pipeline.exec();
+  }
+
+  private toCheck(result: unknown): QuotaCheck {
+    const [subject, quota, current] = (result as number[]).map(Number);
+    if (subject === undefined || subject < 0) {
+      return { ok: true };
+    }
+    return { ok: false, subject, quota: QUOTA_NAMES[quota ?? 0]!, current: current ?? 0 };
+  }
+}
+
+class MemoryQuotaBackend implements QuotaBackend {
+  private reservations: Map<string, Map<string, number>> = new Map();
+  private counters: Map<string, { value: number; expiresAt: number }> = new Map();
+  private chargedOn: Map<string, string> = new Map();
+
+  public async reserve(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<QuotaCheck> {
+    for (const [index, subject] of subjects.entries()) {
+      const active = this.activeReservations(concurrentKey(subject));
+      if (subject.limits.maxConcurrentSessions > 0 && active.size >= subject.limits.maxConcurrentSessions) {
+        return { ok: false, subject: index, quota: 'concurrent-sessions', current: active.size };
+      }
+      const used = this.getCounter(minutesKey(subject));
+      if (subject.limits.maxSessionMinutesPerDay > 0 && used + minutes > subject.limits.maxSessionMinutesPerDay) {
+        return { ok: false, subject: index, quota: 'session-minutes', current: used };
+      }
+    }
+
+    const day = today();
+    this.chargedOn.set(member, day);
+    for (const subject of subjects) {
+      this.activeReservations(concurrentKey(subject)).set(member, expiresAt);
+      this.incrementCounter(minutesKey(subject, day), minutes);
+    }
+    return { ok: true };
+  }
+
+  public async extend(
+    subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number, maxExtensions: number
+  ): Promise<QuotaCheck> {
+    const extensions = this.getCounter(extensionsKey(member));
+    if (maxExtensions > 0 && extensions >= maxExtensions) {
+      return { ok: false, subject: 0, quota: 'extensions', current: extensions };
+    }
+    for (const [index, subject] of subjects.entries()) {
+      const used = this.getCounter(minutesKey(subject));
+      if (subject.limits.maxSessionMinutesPerDay > 0 && used + minutes > subject.limits.maxSessionMinutesPerDay) {
+        return { ok: false, subject: index, quota: 'session-minutes', current: used };
+      }
+    }
+
+    this.incrementCounter(extensionsKey(member), 1);
+    for (const subject of subjects) {
+      const active = this.activeReservations(concurrentKey(subject));
+      if (active.has(member)) {
+        active.set(member, expiresAt);
+      }
+      this.incrementCounter(minutesKey(subject), minutes);
+    }
+    return { ok: true };
+  }
+
+  public async revertExtension(
+    subjects: QuotaSubject[], member: string, previousExpiresAt: number, minutes: number
+  ): Promise<void> {
+    this.incrementCounter(extensionsKey(member), -1);
+    for (const subject of subjects) {
+      const active = this.activeReservations(concurrentKey(subject));
+      if (active.has(member)) {
+        active.set(member, previousExpiresAt);
+      }
+      this.incrementCounter(minutesKey(subject), -minutes);
+    }
+  }
+
+  public async release(subjects: QuotaSubject[], member: string, refundMinutes: number): Promise<void> {
+    const day = this.chargedOn.get(member) || today();
+    this.counters.delete(extensionsKey(member));
+    this.chargedOn.delete(member);
+    for (const subject of subjects) {
+      this.activeReservations(concurrentKey(subject)).delete(member);
+      if (refundMinutes > 0) {
+        this.incrementCounter(minutesKey(subject, day), -refundMinutes);
+      }
+    }
+  }
+
+  public async move(subjects: QuotaSubject[], member: string, expiresAt: number, minutes: number): Promise<void> {
+    const day = minutes < 0 ? this.chargedOn.get(member) || today() : today();
+    for (const subject of subjects) {
+      const active = this.activeReservations(concurrentKey(subject));
+      if (active.has(member)) {
+        active.set(member, expiresAt);
+      }
+      if (minutes !== 0) {
+        this.incrementCounter(minutesKey(subject, day), minutes);
+      }
+    }
+  }
+
+  private activeReservations(key: string): Map<string, number> {
+    let active = this.reservations.get(key);
+    if (!active) {
+      active = new Map();
+      this.reservations.set(key, active);
+    }
+    const now = Date.now();
+    for (const [member, expiresAt] of active) {
+      if (expiresAt <= now) {
+        active.delete(member);
+      }
+    }
+    return active;
+  }
+
+  private getCounter(key: string): number {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return 0;
+    }
+    return counter.value;
+  }
+
+  private incrementCounter(key: string, by: number): void {
+    this.counters.set(key, {
+      value: this.getCounter(key) + by,
+      expiresAt: Date.now() + DAY_TTL_SECONDS * 1000,
+    });
+  }
+}
+
+class QuotaService {
+  private backend: QuotaBackend;
+
+  constructor() {
+    const redis = createRedisClient('quotas');
+    this.backend = redis ? new RedisQuotaBackend(redis) : new MemoryQuotaBackend();
+    logger.info('Quota service initialized', { backend: redis ? 'redis' : 'memory' });
+  }
+
+  public getLimits(scope: QuotaScope, id: string): QuotaLimits {
+    return {
+      ...config.quotas[scope],
+      ...config.quotas.overrides[`${scope}:${id}`],
+    };
+  }
+
+  // Called before the container is started; cancel the reservation if the start fails
+  public async reserveSession(identity: Pick<AuthIdentity, 'userId' | 'tenantId'>, durationMs: number): Promise<QuotaReservation> {
+    const reservation: QuotaReservation = {
+      id: uuidv4(),
+      userId: identity.userId,
+      ...(identity.tenantId ? { tenantId: identity.tenantId } : {}),
+      minutes: Math.ceil(durationMs / 60000),
+    };
+    const subjects = this.getSubjects(reservation);
+
+    const check = await this.backend.reserve(subjects, reservation.id, Date.now() + durationMs, reservation.minutes);
+    this.assertWithinQuota(check, subjects);
+
+    logger.debug('Quota reserved', { ...reservation });
+    return reservation;
+  }
+
+  public async cancelReservation(reservation: QuotaReservation): Promise<void> {
+    try {
+      await this.backend.release(this.getSubjects(reservation), reservation.id, reservation.minutes);
+    } catch (error) {
+      logger.error('Failed to cancel quota reservation', {
+        reservationId: reservation.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  public async reserveExtension(session: Session, newExpiresAt: number, extraMs: number): Promise<void> {
+    if (!session.reservationId) return;
+
+    const subjects = this.getSubjects({ userId: session.userId || 'anonymous', tenantId: session.tenantId });
+    // The strictest extension limit among the subjects applies to the session
+    const limits = subjects.map(subject => subject.limits.maxExtensions).filter(limit => limit > 0);
+    const maxExtensions = limits.length > 0 ? Math.min(...limits) : 0;
+
+    const check = await this.backend.extend(
+      subjects, session.reservationId, newExpiresAt, Math.ceil(extraMs / 60000), maxExtensions
+    );
+    if (!check.ok && check.quota === 'extensions') {
+      const scope = subjects.find(subject => subject.limits.maxExtensions === maxExtensions)?.scope || 'user';
+      throw new QuotaExceededError('extensions', scope, maxExtensions, check.current);
+    }
+    this.assertWithinQuota(check, subjects);
+  }
+
+  // Undoes reserveExtension when the new expiry could not be applied
+  public async cancelExtension(session: Session, previousExpiresAt: number, extraMs: number): Promise<void> {
+    if (!session.reservationId) return;
+
+    try {
+      await this.backend.revertExtension(
+        this.getSubjects({ userId: session.userId || 'anonymous', tenantId: session.tenantId }),
+        session.reservationId,
+        previousExpiresAt,
+        Math.ceil(extraMs / 60000)
+      );
+    } catch (error) {
+      logger.error('Failed to cancel quota extension', {
+        containerId: session.containerId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // Follows an expiry set by an operator: the reservation keeps holding its
+  // concurrency slot until the new expiry, and the difference in minutes is
+  // charged or given back. It is not an extension, so no limit is checked.
+  public async moveReservation(session: Session, previousExpiresAt: number, newExpiresAt: number): Promise<void> {
+    if (!session.reservationId) return;
+
+    const deltaMs = newExpiresAt - previousExpiresAt;
+    const minutes = deltaMs > 0 ? Math.ceil(deltaMs / 60000) : -Math.floor(-deltaMs / 60000);
+    try {
+      await this.backend.move(
+        this.getSubjects({ userId: session.userId || 'anonymous', tenantId: session.tenantId }),
+        session.reservationId,
+        newExpiresAt,
+        minutes
+      );
+    } catch (error) {
+      logger.error('Failed to move quota reservation', {
+        containerId: session.containerId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // The whole minutes left on a session that ends early are given back
+  public async releaseSession(session: Session): Promise<void> {
+    if (!session.reservationId) return;
+
+    try {
+      await this.backend.release(
+        this.getSubjects({ userId: session.userId || 'anonymous', tenantId: session.tenantId }),
+        session.reservationId,
+        Math.max(0, Math.floor((session.expiresAt - Date.now()) / 60000))
+      );
+    } catch (error) {
+      logger.error('Failed to release session quota', {
+        containerId: session.containerId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // Without authentication every caller is the same anonymous user, whose
+  // per-user limits would cap the whole instance below MAX_SESSIONS
+  private getSubjects(owner: { userId: string; tenantId?: string | undefined }): QuotaSubject[] {
+    const subjects: QuotaSubject[] = [];
+    if (config.security.authEnabled || owner.userId !== 'anonymous') {
+      subjects.push({ scope: 'user', id: owner.userId, limits: this.getLimits('user', owner.userId) });
+    }
+    if (owner.tenantId) {
+      subjects.push({ scope: 'tenant', id: owner.tenantId, limits: this.getLimits('tenant', owner.tenantId) });
+    }
+    return subjects;
+  }
+
+  private assertWithinQuota(check: QuotaCheck, subjects: QuotaSubject[]): void {
+    if (check.ok) return;
+
+    const subject = subjects[check.subject]!;
+    const limit = check.quota === 'concurrent-sessions'
+      ? subject.limits.maxConcurrentSessions
+      : check.quota === 'session-minutes'
+        ? subject.limits.maxSessionMinutesPerDay
+        : subject.limits.maxExtensions;
+
+    logger.warn('Quota exceeded', {
+      quota: check.quota,
+      scope: subject.scope,
+      subjectId: subject.id,
+      limit,
+      current: check.current,
+    });
+    throw new QuotaExceededError(check.quota, subject.scope, limit, check.current);
+  }
+}
+
+export default new QuotaService();
@@ -5,6 +5,8 @@ import rateLimit from 'express-rate-limit';
 import Redis from 'ioredis';
 import config from '../config';
 import logger from '../utils/logger';
+import { redactUrl } from '../utils/credentials';
+import metrics from './metrics';
 
 let redisClient: Redis | null = null;
 
@@ -61,10 +63,11 @@ const createRateLimiter = () => {
       prefix: 'rate-limit:',
     }) : undefined,
     handler: (req: any, res: any) => {
+      metrics.rateLimitRejections.inc({ limiter: 'global' });
       logger.warn('Rate limit exceeded', {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        url: req.url,
+        url: redactUrl(req.url),
       });
       
       res.status(429).json({
@@ -100,6 +103,7 @@ export const createSessionRateLimiter = () => {
       prefix: 'session-rate-limit:',
     }) : undefined,
     handler: (req: any, res: any) => {
+      metrics.rateLimitRejections.inc({ limiter: 'session' });
       logger.warn('Session rate limit exceeded', {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
@@ -131,10 +135,11 @@ export const createApiRateLimiter = () => {
       prefix: 'api-rate-limit:',
     }) : undefined,
     handler: (req: any, res: any) => {
+      metrics.rateLimitRejections.inc({ limiter: 'api' });
       logger.warn('API rate limit exceeded', {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
-        url: req.url,
+        url: redactUrl(req.url),
       });
       
       res.status(429).json({
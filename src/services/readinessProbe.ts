@@ -0,0 +1,89 @@
+import http from 'http';
+import { HealthCheckConfig, SessionProfile } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface ProbeTarget {
+  host: string;
+  port: number;
+}
+
+class ReadinessProbe {
+  public isEnabled(): boolean {
+    return config.docker.readiness.enabled;
+  }
+
+  // Profile settings win over the global READINESS_* defaults
+  public getHealthCheck(profile: SessionProfile): HealthCheckConfig {
+    const { path, timeoutMs, intervalMs, expectedStatus } = config.docker.readiness;
+    return {
+      path,
+      timeoutMs,
+      intervalMs,
+      ...(expectedStatus ? { expectedStatus } : {}),
+      ...profile.healthCheck,
+    };
+  }
+
+  // Polls the app inside the container until it answers or the timeout expires
+  public async waitUntilReady(containerId: string, target: ProbeTarget, check: HealthCheckConfig): Promise<void> {
+    const startTime = Date.now();
+    let attempts = 0;
+    let lastError = 'no response';
+
+    while (Date.now() - startTime < check.timeoutMs) {
+      attempts++;
+      try {
+        const statusCode = await this.probe(target, check);
+        const ready = check.expectedStatus && check.expectedStatus.length > 0
+          ? check.expectedStatus.includes(statusCode)
+          : statusCode < 500;
+
+        if (ready) {
+          const duration = Date.now() - startTime;
+          logger.info('Container is ready', {
+            containerId,
+            statusCode,
+            attempts,
+            duration: `${duration}ms`,
+          });
+          return;
+        }
+        lastError = `status ${statusCode}`;
+      } catch (error) {
+        lastError = (error as Error).message;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, check.intervalMs));
+    }
+
+    logger.warn('Container readiness probe timed out', {
+      containerId,
+      target: `${target.host}:${target.port}${check.path}`,
+      attempts,
+      lastError,
+    });
+    throw new Error(`Container did not become ready within ${check.timeoutMs}ms (${lastError})`);
+  }
+
+  private probe(target: ProbeTarget, check: HealthCheckConfig): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = http.get({
+        host: target.host,
+        port: target.port,
+        path: check.path,
+        timeout: Math.max(check.intervalMs, 1000),
+      }, (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      });
+
+      request.on('timeout', () => {
+        request.destroy(new Error('probe request timed out'));
+      });
+      request.on('error', reject);
+    });
+  }
+}
+
+export default new ReadinessProbe();
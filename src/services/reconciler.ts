@@ -0,0 +1,201 @@
+import { ManagedContainer, ReconcileReport } from '../types';
+import containerRuntime from './containerRuntime';
+import sessionManager from './sessionManager';
+import profileCatalog from './profileCatalog';
+import warmPool, { POOL_LABEL } from './warmPool';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+import { SESSION_LABELS } from '../utils/labels';
+
+// Brings session records and Docker back in line: records whose container is
+// gone are dropped, and labelled containers nobody tracks are adopted or
+// killed according to RECONCILE_ORPHAN_POLICY. Runs at startup and on an interval.
+class Reconciler {
+  private interval: NodeJS.Timeout | null = null;
+  private running: Promise<ReconcileReport | null> | null = null;
+
+  public start(): void {
+    // Wait for the records of the previous run before comparing
+    sessionStore.whenLoaded().then(() => this.reconcile());
+
+    if (config.reconciler.intervalMs > 0) {
+      this.interval = setInterval(() => {
+        this.reconcile();
+      }, config.reconciler.intervalMs);
+    }
+  }
+
+  public shutdown(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Returns null when no Docker node could be listed; nothing is changed then
+  public reconcile(): Promise<ReconcileReport | null> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<ReconcileReport | null> {
+    const startTime = Date.now();
+    const containers: ManagedContainer[] = [];
+    const listedNodes = new Set<string>();
+
+    // Sessions on a node that cannot be listed are left alone until it is back
+    for (const node of containerRuntime.getNodeNames()) {
+      try {
+        containers.push(...await containerRuntime.listManagedContainers(node));
+        listedNodes.add(node);
+      } catch (error) {
+        logger.error('Skipping reconciliation of Docker node, containers could not be listed', {
+          node,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (listedNodes.size === 0) {
+      return null;
+    }
+
+    const report: ReconcileReport = {
+      checkedContainers: containers.length,
+      droppedSessions: 0,
+      adoptedContainers: 0,
+      killedContainers: 0,
+    };
+    const running = new Map(
+      containers.filter(container => container.state === 'running').map(container => [container.id, container])
+    );
+    const defaultNode = containerRuntime.getNodeNames()[0];
+
+    // Records without a running container; sessions created after the listing are skipped
+    for (const session of sessionStore.getAllSessions()) {
+      const createdAt = Date.parse(session.metadata?.['createdAt'] || '');
+      if (running.has(session.containerId) || createdAt >= startTime) continue;
+      if (!listedNodes.has(session.node || defaultNode || '')) continue;
+
+      logger.warn('Dropping session whose container is gone', {
+        containerId: session.containerId,
+        userId: session.userId,
+        node: session.node,
+      });
+      await sessionManager.stopSession(session.containerId, 'container-crashed');
+      report.droppedSessions++;
+    }
+
+    for (const untracked of running.values()) {
+      if (sessionStore.getSession(untracked.id) || warmPool.isPooled(untracked.id)) continue;
+      // May still be on its way to becoming a session or joining the pool
+      if (startTime - untracked.createdAt < config.reconciler.graceMs) continue;
+
+      let container: ManagedContainer;
+      try {
+        container = await this.withPoolClaim(untracked);
+      } catch (error) {
+        logger.error('Skipping warm pool container, its claim could not be read', {
+          containerId: untracked.id,
+          error: (error as Error).message,
+        });
+        continue;
+      }
+      // Other replicas' idle pool containers are theirs to manage
+      if (container.labels[POOL_LABEL] === 'unassigned' && this.isForeign(container)) continue;
+
+      if (config.reconciler.orphanPolicy === 'adopt' && this.adopt(container)) {
+        report.adoptedContainers++;
+      } else if (config.reconciler.orphanPolicy !== 'ignore') {
+        logger.warn('Killing untracked container', {
+          containerId: container.id,
+          node: container.node,
+          labels: container.labels,
+        });
+        if (await containerRuntime.stopContainer(container.id, container.node)) {
+          sessionStore.removePoolClaim(container.id);
+          report.killedContainers++;
+        }
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Reconciliation completed', {
+      ...report,
+      orphanPolicy: config.reconciler.orphanPolicy,
+      duration: `${duration}ms`,
+    });
+
+    return report;
+  }
+
+  // A pool container handed out to a session keeps the session's labels in its claim
+  private async withPoolClaim(container: ManagedContainer): Promise<ManagedContainer> {
+    if (container.labels[POOL_LABEL] !== 'unassigned') {
+      return container;
+    }
+    const claim = await sessionStore.getPoolClaim(container.id);
+    return claim ? { ...container, labels: { ...container.labels, ...claim } } : container;
+  }
+
+  private isForeign(container: ManagedContainer): boolean {
+    const instanceId = container.labels[SESSION_LABELS.instance];
+    return sessionStore.isDistributed() && instanceId !== undefined && instanceId !== config.instanceId;
+  }
+
+  // Rebuilds the session from its labels, or its claim for pool containers.
+  // Extensions are not on either, so an adopted session runs until its
+  // originally booked expiry.
+  private adopt(container: ManagedContainer): boolean {
+    const { labels } = container;
+    const profileName = labels[SESSION_LABELS.profile];
+    const expiresAt = Date.parse(labels[SESSION_LABELS.expiresAt] || '');
+
+    // Unclaimed pool containers from a previous run have no session to rebuild
+    if (labels[POOL_LABEL] === 'unassigned' || !profileName || !profileCatalog.has(profileName) || !(expiresAt > Date.now())) {
+      return false;
+    }
+
+    const profile = profileCatalog.get(profileName);
+    const hostPort = container.hostPorts[profile.ports[0]!];
+    if (!hostPort) {
+      return false;
+    }
+
+    const userId = labels[SESSION_LABELS.user];
+    const tenantId = labels[SESSION_LABELS.tenant];
+    const reservationId = labels[SESSION_LABELS.reservation];
+    const createdAt = labels['created-at'];
+
+    sessionStore.createSession(container.id, hostPort, expiresAt - Date.now(), {
+      status: 'ready',
+      profile: profile.name,
+      image: profile.image,
+      node: container.node,
+      ...(container.host ? { host: container.host } : {}),
+      ...(userId ? { userId } : {}),
+      ...(tenantId ? { tenantId } : {}),
+      ...(reservationId ? { reservationId } : {}),
+      metadata: {
+        adopted: true,
+        ...(createdAt ? { createdAt } : {}),
+      },
+    });
+
+    logger.info('Adopted untracked container as session', {
+      containerId: container.id,
+      userId,
+      profile: profile.name,
+      node: container.node,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+    return true;
+  }
+}
+
+export default new Reconciler();
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+import { Session, SessionEndReason, SessionEvent, SessionEventType } from '../types';
+import sessionStore from '../models/sessionStore';
+
+const END_EVENTS: Record<SessionEndReason, SessionEventType> = {
+  'expired': 'expired',
+  'user-stopped': 'stopped',
+  'admin-stopped': 'stopped',
+  'shutdown': 'stopped',
+  'start-failed': 'stopped',
+  'container-crashed': 'container-crashed',
+  'disk-limit-exceeded': 'limit-exceeded',
+  'transfer-limit-exceeded': 'limit-exceeded',
+};
+
+// Turns SessionStore lifecycle events into client-facing events, fanned out
+// per containerId to the open event streams.
+class SessionEvents {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream, so no fixed limit applies
+    this.emitter.setMaxListeners(0);
+
+    sessionStore.on('extended', (session: Session) => {
+      this.publish(session, 'extended');
+    });
+    sessionStore.on('expiring-soon', (session: Session) => {
+      this.publish(session, 'expiring-soon');
+    });
+    sessionStore.on('removed', (session: Session, reason: SessionEndReason) => {
+      this.publish(session, END_EVENTS[reason], reason);
+    });
+  }
+
+  public subscribe(containerId: string, listener: (event: SessionEvent) => void): () => void {
+    this.emitter.on(containerId, listener);
+    return () => {
+      this.emitter.off(containerId, listener);
+    };
+  }
+
+  // Tells the session's clients that this instance is going into maintenance
+  public announceMaintenance(session: Session, deadline?: number): void {
+    this.publish(session, 'maintenance', undefined, deadline);
+  }
+
+  public isFinal(event: SessionEvent): boolean {
+    return event.reason !== undefined;
+  }
+
+  public getStats(): Record<string, any> {
+    return {
+      subscribers: this.emitter.eventNames()
+        .reduce((total, name) => total + this.emitter.listenerCount(name), 0),
+    };
+  }
+
+  private publish(session: Session, type: SessionEventType, reason?: SessionEndReason, deadline?: number): void {
+    const event: SessionEvent = {
+      type,
+      containerId: session.containerId,
+      expiresAt: session.expiresAt,
+      remainingTimeMs: reason ? 0 : Math.max(0, session.expiresAt - Date.now()),
+      ...(reason ? { reason } : {}),
+      ...(deadline !== undefined ? { deadline } : {}),
+      timestamp: new Date().toISOString(),
+    };
+    this.emitter.emit(session.containerId, event);
+  }
+}
+
+export default new SessionEvents();
\ No newline at end of file
@@ -1,51 +1,225 @@
-import { SessionResponse } from '../types';
-import dockerService from './dockerService';
+import {
+  ActionClient,
+  ContainerInfo,
+  CreateSessionOptions,
+  FleetSession,
+  QueueTicketStatus,
+  QuotaReservation,
+  Session,
+  SessionEndReason,
+  SessionJob,
+  SessionMetrics,
+  SessionProfile,
+  SessionAction,
+  SessionResponse,
+  SessionStatus,
+} from '../types';
+import containerRuntime from './containerRuntime';
+import profileCatalog from './profileCatalog';
+import warmPool from './warmPool';
+import readinessProbe, { ProbeTarget } from './readinessProbe';
+import quotaService, { QuotaExceededError } from './quotaService';
+import sessionEvents from './sessionEvents';
+import admissionQueue, { QueuedRequest } from './admissionQueue';
+import usageMonitor from './usageMonitor';
+import sessionMetrics from './sessionMetrics';
+import metrics from './metrics';
+import auditLog from './auditLog';
 import sessionStore from '../models/sessionStore';
+import sessionJobStore from '../models/sessionJobStore';
 import config from '../config';
 import logger from '../utils/logger';
+import { withSpan } from '../utils/tracing';
+import { SESSION_LABELS } from '../utils/labels';
+
+// Sessions the system ended for any reason but expiry count as cleanups
+const endAction = (reason: SessionEndReason): SessionAction['action'] => {
+  if (reason === 'user-stopped' || reason === 'admin-stopped') return 'stop';
+  if (reason === 'expired') return 'expire';
+  return 'cleanup';
+};
+
+export class AdmissionClosedError extends Error {
+  public readonly retryAfterSeconds = config.drain.retryAfterSeconds;
+
+  constructor() {
+    super(`This instance is in maintenance and does not admit new sessions; retry in ${config.drain.retryAfterSeconds} seconds`);
+    this.name = 'AdmissionClosedError';
+  }
+}
+
+// MAX_SESSIONS is reached; the request may wait in the admission queue
+export class CapacityError extends Error {
+  constructor() {
+    super(`Maximum number of sessions (${config.sessions.maxSessions}) reached`);
+    this.name = 'CapacityError';
+  }
+}
 
 class SessionManager {
-  public async createSession(durationMs?: number, userId?: string): Promise<SessionResponse> {
+  private pendingStops: Map<string, Promise<boolean>> = new Map();
+  private pendingStarts: Set<Promise<SessionResponse>> = new Set();
+  private startingCount = 0;
+  private shuttingDown = false;
+  // Set while operators drain this instance; running sessions are unaffected
+  private admissionClosedAt: number | null = null;
+  private stopWatchingExits: () => void;
+
+  constructor() {
+    // Expired sessions go through the same teardown as user stops so the
+    // container is always removed along with the record.
+    sessionStore.on('expired', (session: Session) => {
+      this.stopSession(session.containerId, session.endReason || 'expired');
+    });
+
+    // Every freed slot goes to the head of the admission queue
+    sessionStore.on('removed', (_session: Session, reason: SessionEndReason) => {
+      metrics.sessionsEnded.inc({ reason });
+      this.admitWaiting();
+    });
+    admissionQueue.on('updated', () => {
+      this.admitWaiting();
+    });
+
+    usageMonitor.on('exceeded', (session: Session, reason: SessionEndReason) => {
+      this.stopSession(session.containerId, reason);
+    });
+
+    // A container that exits while no stop is in progress has crashed or was
+    // killed (e.g. OOM); its session ends with it.
+    this.stopWatchingExits = containerRuntime.watchContainerExits((containerId, exitCode, node) => {
+      if (sessionStore.getSession(containerId) && !this.pendingStops.has(containerId)) {
+        logger.warn('Session container exited unexpectedly', { containerId, exitCode, node });
+        this.stopSession(containerId, 'container-crashed');
+      }
+    });
+  }
+
+  public async createSession(options: CreateSessionOptions = {}): Promise<SessionResponse> {
+    const leaseId = await this.claimSlot();
+    try {
+      return await this.launchSession(options);
+    } finally {
+      this.releaseSlot(leaseId);
+    }
+  }
+
+  // Both the synchronous and the job-based start are traced as createSession
+  private launchSession(options: CreateSessionOptions): Promise<SessionResponse> {
+    const attributes = options.owner?.userId ? { 'session.user_id': options.owner.userId } : {};
+    const started = withSpan('SessionManager.createSession', attributes, async (span) => {
+      const session = await this.startSession(options);
+      span.setAttributes({
+        'session.container_id': session.containerId,
+        ...(session.profile ? { 'session.profile': session.profile } : {}),
+      });
+      return session;
+    });
+    // Tracked so shutdown finds the sessions of starts still in progress
+    this.pendingStarts.add(started);
+    started.finally(() => this.pendingStarts.delete(started)).catch(() => undefined);
+    return started;
+  }
+
+  private async startSession(options: CreateSessionOptions): Promise<SessionResponse> {
     const startTime = Date.now();
-    const sessionDuration = durationMs || config.sessions.defaultDurationMs;
+    const { owner } = options;
+    const profile = profileCatalog.get(options.profile);
+    const sessionDuration = this.resolveDuration(options, profile);
+    const userId = owner?.userId;
+    let reservation: QuotaReservation | null = options.reservation || null;
 
     try {
-      logger.info('Creating new session', { durationMs: sessionDuration, userId });
+      logger.info('Creating new session', {
+        durationMs: sessionDuration,
+        profile: profile.name,
+        userId,
+        tenantId: owner?.tenantId,
+      });
 
-      // Check session limits
-      const activeSessions = sessionStore.getActiveSessionsCount();
-      if (activeSessions >= config.sessions.maxSessions) {
-        throw new Error(`Maximum number of sessions (${config.sessions.maxSessions}) reached`);
+      // Per-user and per-tenant quotas, released again if the start fails
+      if (!reservation && owner) {
+        reservation = await quotaService.reserveSession(owner, sessionDuration);
       }
 
-      // Start Docker container
-      const containerInfo = await dockerService.startContainer();
+      // Claim a pre-started container if the pool has one, otherwise start cold
+      const labels = this.getSessionLabels(owner, reservation, sessionDuration);
+      let containerInfo = await warmPool.acquire(profile.name, labels);
+      const fromPool = containerInfo !== null;
+      if (containerInfo) {
+        options.onProgress?.('starting');
+      } else {
+        await warmPool.makeRoom(profile.name);
+        containerInfo = await containerRuntime.startContainer(profile, {
+          labels,
+          ...(options.onProgress ? { onPhase: options.onProgress } : {}),
+        });
+      }
+
+      // Pool containers were probed before they joined the pool
+      const needsProbe = readinessProbe.isEnabled() && !fromPool;
+      const waitForReady = options.waitForReady !== false;
+      if (needsProbe && waitForReady) {
+        try {
+          await this.waitForContainer(containerInfo, profile);
+        } catch (error) {
+          await containerRuntime.stopContainer(containerInfo.id, containerInfo.node);
+          throw error;
+        }
+      }
       
       // Create session in store
       const session = sessionStore.createSession(
         containerInfo.id,
         containerInfo.hostPort,
         sessionDuration,
-        userId
+        {
+          ...(userId ? { userId } : {}),
+          ...(owner?.tenantId ? { tenantId: owner.tenantId } : {}),
+          ...(reservation ? { reservationId: reservation.id } : {}),
+          profile: profile.name,
+          image: profile.image,
+          node: containerInfo.node,
+          ...(containerInfo.host ? { host: containerInfo.host } : {}),
+          status: needsProbe && !waitForReady ? 'starting' : 'ready',
+        }
       );
 
+      if (session.status === 'starting') {
+        this.waitForContainer(containerInfo, profile)
+          .then(() => {
+            sessionStore.setSessionStatus(session.containerId, 'ready');
+          })
+          .catch(() => {
+            this.stopSession(session.containerId, 'start-failed');
+          });
+      }
+
+      this.audit('start', session, options.client, {
+        metadata: { durationMs: sessionDuration, hostPort: session.hostPort, fromPool },
+      });
+
       const duration = Date.now() - startTime;
+      const metricLabels = { profile: profile.name, from_pool: String(fromPool) };
+      metrics.sessionsCreated.inc(metricLabels);
+      metrics.sessionStartDuration.observe(metricLabels, duration / 1000);
       logger.info('Session created successfully', {
         containerId: containerInfo.id,
         hostPort: containerInfo.hostPort,
+        fromPool,
         duration: `${duration}ms`,
         userId,
       });
 
       return {
-        containerId: containerInfo.id,
-        hostPort: containerInfo.hostPort,
-        proxyUrl: `/browser-session/${containerInfo.id}/`,
-        browserUrl: `http://localhost:${containerInfo.hostPort}/`,
-        expiresAt: session.expiresAt,
+        ...this.toSessionResponse(session),
         remainingTimeMs: sessionDuration,
       };
     } catch (error) {
+      if (reservation) {
+        await quotaService.cancelReservation(reservation);
+      }
+
       const duration = Date.now() - startTime;
       logger.error('Failed to create session', {
         error: (error as Error).message,
@@ -56,21 +230,254 @@ class SessionManager {
     }
   }
 
-  public async stopSession(containerId: string): Promise<boolean> {
+  // Capacity and quotas are checked before the job is accepted so those errors
+  // are reported synchronously; the container is started in the background.
+  public async createSessionAsync(options: CreateSessionOptions = {}, fromQueue = false): Promise<SessionJob> {
+    const profile = profileCatalog.get(options.profile);
+    const leaseId = await this.claimSlot(fromQueue);
+
+    let reservation: QuotaReservation | null;
+    try {
+      reservation = options.owner
+        ? await quotaService.reserveSession(options.owner, this.resolveDuration(options, profile))
+        : null;
+    } catch (error) {
+      this.releaseSlot(leaseId);
+      throw error;
+    }
+
+    const job = sessionJobStore.createJob(options.owner?.userId || 'anonymous', profile.name);
+
+    this.launchSession({
+      ...options,
+      ...(reservation ? { reservation } : {}),
+      waitForReady: true,
+      onProgress: (state) => {
+        sessionJobStore.updateJob(job.id, { state });
+      },
+    })
+      .then((session) => {
+        sessionJobStore.updateJob(job.id, { state: 'ready', containerId: session.containerId });
+      })
+      .catch((error: Error) => {
+        sessionJobStore.updateJob(job.id, { state: 'failed', error: error.message });
+      })
+      .finally(() => {
+        this.releaseSlot(leaseId);
+      });
+
+    return { ...job };
+  }
+
+  public getSessionJob(id: string): Promise<SessionJob | undefined> {
+    return sessionJobStore.getJob(id);
+  }
+
+  // For requests that found the pool full; they are started once a slot frees up
+  public enqueueSession(request: QueuedRequest): QueueTicketStatus {
+    if (!this.isAdmitting()) {
+      throw new AdmissionClosedError();
+    }
+    return admissionQueue.enqueue(request);
+  }
+
+  public isAdmitting(): boolean {
+    return this.admissionClosedAt === null;
+  }
+
+  // Closing only turns away new starts; queued requests wait for reopening
+  // and running sessions are warned through their event streams
+  public setAdmission(open: boolean): void {
+    if (open === this.isAdmitting()) return;
+
+    this.admissionClosedAt = open ? null : Date.now();
+    logger.warn(open ? 'Session admission reopened' : 'Session admission closed', {
+      localSessions: sessionStore.getLocalSessionsCount(),
+      queued: admissionQueue.getStats()['waiting'],
+    });
+    if (open) {
+      this.admitWaiting();
+    } else {
+      this.announceMaintenance();
+    }
+  }
+
+  private announceMaintenance(deadline?: number): void {
+    for (const session of sessionStore.getAllSessions()) {
+      if (sessionStore.isSessionActive(session.containerId)) {
+        sessionEvents.announceMaintenance(session, deadline);
+      }
+    }
+  }
+
+  // Resolves once every session has ended or the deadline has passed
+  private async waitForSessionsToEnd(deadline: number): Promise<void> {
+    while (sessionStore.getAllSessions().length > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(1000, deadline - Date.now())));
+    }
+  }
+
+  public async getAdmissionStatus(): Promise<Record<string, any>> {
+    return {
+      admitting: this.isAdmitting(),
+      ...(this.admissionClosedAt ? { closedAt: new Date(this.admissionClosedAt).toISOString() } : {}),
+      activeSessions: await sessionStore.getActiveSessionsCount(),
+      startingSessions: this.startingCount,
+      queued: admissionQueue.getStats()['waiting'],
+      instanceId: config.instanceId,
+    };
+  }
+
+  // In local mode the count is taken before the first await so concurrent
+  // starts cannot overshoot maxSessions. In redis store mode the local copy may
+  // lag behind the other instances, so only the start lease decides, counting
+  // the sessions and starts of every instance in Redis. While requests are
+  // queued, only the queue may take a free slot.
+  private async claimSlot(fromQueue = false): Promise<string> {
+    if (!this.isAdmitting()) {
+      throw new AdmissionClosedError();
+    }
+    const full = !sessionStore.isDistributed() && !this.hasFreeSlot();
+    if (full || (!fromQueue && admissionQueue.hasWaiters())) {
+      throw new CapacityError();
+    }
+    this.startingCount++;
+
+    let leaseId: string | null = null;
+    try {
+      leaseId = await sessionStore.claimStartLease(config.sessions.maxSessions);
+    } finally {
+      if (!leaseId) {
+        this.startingCount--;
+      }
+    }
+    if (!leaseId) {
+      throw new CapacityError();
+    }
+    return leaseId;
+  }
+
+  private releaseSlot(leaseId: string): void {
+    this.startingCount = Math.max(0, this.startingCount - 1);
+    sessionStore.releaseStartLease(leaseId);
+    // A failed start leaves its slot free
+    this.admitWaiting();
+  }
+
+  // Only a hint in redis store mode, where admitted requests may still find
+  // the pool full and go back to the queue
+  private hasFreeSlot(): boolean {
+    return sessionStore.getLocalSessionsCount() + this.startingCount < config.sessions.maxSessions;
+  }
+
+  // Starts queued requests in FIFO order while there is capacity
+  private admitWaiting(): void {
+    if (this.shuttingDown || !this.isAdmitting()) return;
+
+    while (admissionQueue.hasWaiters() && this.hasFreeSlot()) {
+      const ticket = admissionQueue.next();
+      if (!ticket) return;
+
+      this.createSessionAsync({
+        owner: ticket.owner,
+        ...(ticket.client ? { client: ticket.client } : {}),
+        ...(ticket.durationMs ? { durationMs: ticket.durationMs } : {}),
+        ...(ticket.profile ? { profile: ticket.profile } : {}),
+      }, true)
+        .then((job) => {
+          admissionQueue.markAdmitted(ticket.id, job.id);
+        })
+        .catch((error: Error) => {
+          // Another instance took the slot first; wait for the next one
+          if (error instanceof CapacityError) {
+            admissionQueue.requeue(ticket.id);
+          } else {
+            admissionQueue.markFailed(ticket.id, error.message);
+          }
+        });
+    }
+  }
+
+  // Let the reconciler adopt the session from its container. Pool containers
+  // keep them in their claim instead.
+  private getSessionLabels(
+    owner: CreateSessionOptions['owner'],
+    reservation: QuotaReservation | null,
+    durationMs: number
+  ): Record<string, string> {
+    return {
+      [SESSION_LABELS.expiresAt]: new Date(Date.now() + durationMs).toISOString(),
+      ...(owner ? { [SESSION_LABELS.user]: owner.userId } : {}),
+      ...(owner?.tenantId ? { [SESSION_LABELS.tenant]: owner.tenantId } : {}),
+      ...(reservation ? { [SESSION_LABELS.reservation]: reservation.id } : {}),
+    };
+  }
+
+  // The profile's maximum also caps the default duration
+  private resolveDuration(options: CreateSessionOptions, profile: SessionProfile): number {
+    return Math.min(options.durationMs || config.sessions.defaultDurationMs, profile.maxDurationMs);
+  }
+
+  private waitForContainer(containerInfo: ContainerInfo, profile: SessionProfile): Promise<void> {
+    return readinessProbe.waitUntilReady(
+      containerInfo.id,
+      { host: containerInfo.host || containerRuntime.getContainerHost(containerInfo.node), port: containerInfo.hostPort },
+      readinessProbe.getHealthCheck(profile)
+    );
+  }
+
+  public stopSession(containerId: string, reason: SessionEndReason = 'user-stopped', client?: ActionClient): Promise<boolean> {
+    // Timers, the cleanup interval and API calls can race on the same session
+    const pending = this.pendingStops.get(containerId);
+    if (pending) {
+      return pending;
+    }
+
+    const stop = this.teardownSession(containerId, reason, client).finally(() => {
+      this.pendingStops.delete(containerId);
+    });
+    this.pendingStops.set(containerId, stop);
+    return stop;
+  }
+
+  private async teardownSession(containerId: string, reason: SessionEndReason, client?: ActionClient): Promise<boolean> {
     const startTime = Date.now();
 
     try {
-      logger.info('Stopping session', { containerId });
+      logger.info('Stopping session', { containerId, reason });
+
+      const session = sessionStore.getSession(containerId);
 
       // Stop Docker container
-      const containerStopped = await dockerService.stopContainer(containerId);
-      
+      const containerStopped = await this.stopContainerWithRetry(containerId, session?.node);
+
+      if (!containerStopped) {
+        // Keep the record so the cleanup interval retries the teardown
+        sessionStore.markSessionEnding(containerId, reason);
+
+        const duration = Date.now() - startTime;
+        logger.error('Failed to stop session container, will retry', {
+          containerId,
+          reason,
+          duration: `${duration}ms`,
+        });
+        return false;
+      }
+
       // Remove from session store
-      const sessionRemoved = await sessionStore.removeSession(containerId);
+      const sessionRemoved = await sessionStore.removeSession(containerId, reason);
+      if (sessionRemoved && session) {
+        await quotaService.releaseSession(session);
+      }
+
+      if (sessionRemoved && session) {
+        this.audit(endAction(reason), session, client, { reason });
+      }
 
       const duration = Date.now() - startTime;
       logger.info('Session stopped', {
         containerId,
+        reason,
         containerStopped,
         sessionRemoved,
         duration: `${duration}ms`,
@@ -81,6 +488,7 @@ class SessionManager {
       const duration = Date.now() - startTime;
       logger.error('Failed to stop session', {
         containerId,
+        reason,
         error: (error as Error).message,
         duration: `${duration}ms`,
       });
@@ -88,11 +496,84 @@ class SessionManager {
     }
   }
 
-  public getRemainingTime(containerId: string): number {
+  private audit(
+    action: SessionAction['action'],
+    session: Session,
+    client: ActionClient | undefined,
+    details: Pick<SessionAction, 'reason' | 'metadata'> = {}
+  ): void {
+    auditLog.record({
+      action,
+      containerId: session.containerId,
+      ...(session.userId ? { userId: session.userId } : {}),
+      ...(session.image ? { image: session.image } : {}),
+      ...(session.profile ? { profile: session.profile } : {}),
+      actor: client ? client.userId || 'anonymous' : 'system',
+      ...(client?.ip ? { ip: client.ip } : {}),
+      ...(client?.userAgent ? { userAgent: client.userAgent } : {}),
+      ...details,
+    });
+  }
+
+  private async stopContainerWithRetry(containerId: string, node?: string): Promise<boolean> {
+    const { stopMaxRetries, stopRetryDelayMs } = config.sessions;
+
+    for (let attempt = 1; attempt <= stopMaxRetries; attempt++) {
+      if (await containerRuntime.stopContainer(containerId, node)) {
+        sessionStore.removePoolClaim(containerId);
+        return true;
+      }
+      if (attempt < stopMaxRetries) {
+        logger.warn('Container stop attempt failed, retrying', {
+          containerId,
+          attempt,
+          maxRetries: stopMaxRetries,
+        });
+        await new Promise(resolve => setTimeout(resolve, stopRetryDelayMs * attempt));
+      }
+    }
+
+    return false;
+  }
+
+  // Operators can end every session at once, e.g. before maintenance
+  public async stopAllSessions(reason: SessionEndReason, client?: ActionClient): Promise<{ stopped: number; failed: number }> {
+    const sessions = sessionStore.getAllSessions();
+    const results = await Promise.all(sessions.map(session => this.stopSession(session.containerId, reason, client)));
+    const stopped = results.filter(Boolean).length;
+
+    logger.warn('Stopped all sessions', { reason, stopped, failed: results.length - stopped });
+    return { stopped, failed: results.length - stopped };
+  }
+
+  // Sets the expiry outright, without quota limits or the profile's maximum.
+  // The quota reservation follows, so the slot and minutes stay accounted for.
+  public async setSessionExpiry(containerId: string, expiresAt: number, client?: ActionClient): Promise<boolean> {
+    const session = sessionStore.getSession(containerId);
+    if (!session || !sessionStore.isSessionActive(containerId)) {
+      return false;
+    }
+
+    const previousExpiresAt = session.expiresAt;
+    const success = sessionStore.updateSessionExpiry(containerId, expiresAt);
+    if (success) {
+      await quotaService.moveReservation(session, previousExpiresAt, expiresAt);
+      this.audit('extend', session, client, {
+        metadata: {
+          expiresAt: new Date(expiresAt).toISOString(),
+          previousExpiresAt: new Date(previousExpiresAt).toISOString(),
+        },
+      });
+    }
+    return success;
+  }
+
+  public async getRemainingTime(containerId: string): Promise<number> {
     return sessionStore.getRemainingTime(containerId);
   }
 
-  public extendSession(containerId: string, extraMs: number): boolean {
+  // Quota violations are rethrown as QuotaExceededError; other failures return false
+  public async extendSession(containerId: string, extraMs: number, client?: ActionClient): Promise<boolean> {
     const startTime = Date.now();
 
     try {
@@ -103,8 +584,23 @@ class SessionManager {
         throw new Error('Session not found');
       }
 
-      const newExpiresAt = session.expiresAt + extraMs;
-      const success = sessionStore.updateSessionExpiry(containerId, newExpiresAt);
+      const previousExpiresAt = session.expiresAt;
+      const newExpiresAt = previousExpiresAt + extraMs;
+      await quotaService.reserveExtension(session, newExpiresAt, extraMs);
+      let success = false;
+      try {
+        success = sessionStore.updateSessionExpiry(containerId, newExpiresAt);
+      } finally {
+        // The extension was booked but never applied
+        if (!success) {
+          await quotaService.cancelExtension(session, previousExpiresAt, extraMs);
+        }
+      }
+      if (success) {
+        this.audit('extend', session, client, {
+          metadata: { extendByMs: extraMs, expiresAt: new Date(newExpiresAt).toISOString() },
+        });
+      }
 
       const duration = Date.now() - startTime;
       logger.info('Session extended', {
@@ -124,6 +620,9 @@ class SessionManager {
         error: (error as Error).message,
         duration: `${duration}ms`,
       });
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
       return false;
     }
   }
@@ -135,16 +634,7 @@ class SessionManager {
         return null;
       }
 
-      const remainingTime = sessionStore.getRemainingTime(containerId);
-      
-      return {
-        containerId: session.containerId,
-        hostPort: session.hostPort,
-        proxyUrl: `/browser-session/${session.containerId}/`,
-        browserUrl: `http://localhost:${session.hostPort}/`,
-        expiresAt: session.expiresAt,
-        remainingTimeMs: remainingTime,
-      };
+      return this.toSessionResponse(session);
     } catch (error) {
       logger.error('Failed to get session info', {
         containerId,
@@ -157,14 +647,7 @@ class SessionManager {
   public getAllSessions(): SessionResponse[] {
     try {
       const sessions = sessionStore.getAllSessions();
-      return sessions.map(session => ({
-        containerId: session.containerId,
-        hostPort: session.hostPort,
-        proxyUrl: `/browser-session/${session.containerId}/`,
-        browserUrl: `http://localhost:${session.hostPort}/`,
-        expiresAt: session.expiresAt,
-        remainingTimeMs: sessionStore.getRemainingTime(session.containerId),
-      }));
+      return sessions.map(session => this.toSessionResponse(session));
     } catch (error) {
       logger.error('Failed to get all sessions', {
         error: (error as Error).message,
@@ -173,8 +656,100 @@ class SessionManager {
     }
   }
 
-  public getSessionHostPort(containerId: string): number | null {
-    return sessionStore.getSessionHostPort(containerId);
+  // Every session on record with its owner, node and latest resource sample
+  public async getFleetSessions(): Promise<FleetSession[]> {
+    const latest = new Map(
+      (await sessionMetrics.getAllSessionMetrics()).map(entry => [entry.containerId, entry.current])
+    );
+
+    return sessionStore.getAllSessions()
+      .sort((a, b) => a.expiresAt - b.expiresAt)
+      .map(session => ({
+        ...this.toSessionResponse(session),
+        ...(session.tenantId ? { tenantId: session.tenantId } : {}),
+        ...(session.node ? { node: session.node } : {}),
+        stats: latest.get(session.containerId) || null,
+      }));
+  }
+
+  public async getSessionMetrics(containerId: string): Promise<SessionMetrics | null> {
+    const session = sessionStore.getSession(containerId);
+    if (!session || !sessionStore.isSessionActive(containerId)) {
+      return null;
+    }
+    return sessionMetrics.getSessionMetrics(session);
+  }
+
+  public getAllSessionMetrics(): Promise<SessionMetrics[]> {
+    return sessionMetrics.getAllSessionMetrics();
+  }
+
+  public getSessionsByOwner(userId: string): SessionResponse[] {
+    try {
+      return sessionStore.getAllSessions()
+        .filter(session => (session.userId || 'anonymous') === userId)
+        .filter(session => sessionStore.isSessionActive(session.containerId))
+        .sort((a, b) => a.expiresAt - b.expiresAt)
+        .map(session => this.toSessionResponse(session));
+    } catch (error) {
+      logger.error('Failed to get sessions by owner', {
+        userId,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+  }
+
+  private toSessionResponse(session: Session): SessionResponse {
+    const createdAt = session.metadata?.['createdAt'];
+    const usage = usageMonitor.getUsage(session);
+
+    return {
+      containerId: session.containerId,
+      hostPort: session.hostPort,
+      proxyUrl: `/browser-session/${session.containerId}/`,
+      browserUrl: `http://localhost:${session.hostPort}/`,
+      expiresAt: session.expiresAt,
+      remainingTimeMs: Math.max(0, session.expiresAt - Date.now()),
+      status: session.status || 'ready',
+      ...(session.userId ? { userId: session.userId } : {}),
+      ...(session.profile ? { profile: session.profile } : {}),
+      ...(session.image ? { image: session.image } : {}),
+      ...(typeof createdAt === 'string' ? { createdAt } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  }
+
+  // How much longer the session may run before hitting its profile's maximum
+  public getMaxExtensionMs(containerId: string): number {
+    const session = sessionStore.getSession(containerId);
+    if (!session || !session.profile || !profileCatalog.has(session.profile)) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    const createdAt = Date.parse(session.metadata?.['createdAt'] || '');
+    const startedAt = Number.isNaN(createdAt) ? Date.now() : createdAt;
+    return Math.max(0, startedAt + profileCatalog.get(session.profile).maxDurationMs - session.expiresAt);
+  }
+
+  // Sessions created before authentication existed have no userId
+  public getSessionOwner(containerId: string): string | undefined {
+    const session = sessionStore.getSession(containerId);
+    return session ? session.userId || 'anonymous' : undefined;
+  }
+
+  public getSessionStatus(containerId: string): SessionStatus | undefined {
+    const session = sessionStore.getSession(containerId);
+    return session ? session.status || 'ready' : undefined;
+  }
+
+  // Where the proxy reaches the session's browser, on whichever node runs it
+  public getSessionTarget(containerId: string): ProbeTarget | null {
+    const session = sessionStore.getSession(containerId);
+    if (!session?.hostPort) {
+      return null;
+    }
+    return { host: session.host || containerRuntime.getContainerHost(session.node), port: session.hostPort };
   }
 
   public isSessionActive(containerId: string): boolean {
@@ -188,7 +763,7 @@ class SessionManager {
       logger.info('Starting expired sessions cleanup');
 
       // Cleanup orphaned Docker containers
-      const orphanedContainers = await dockerService.cleanupOrphanedContainers();
+      const orphanedContainers = await containerRuntime.cleanupOrphanedContainers();
       
       // Session store cleanup is handled automatically by the store
       const sessionStats = sessionStore.getStats();
@@ -217,6 +792,12 @@ class SessionManager {
       
       return {
         ...sessionStats,
+        warmPool: warmPool.getStats(),
+        events: sessionEvents.getStats(),
+        metrics: sessionMetrics.getStats(),
+        admissionQueue: admissionQueue.getStats(),
+        startingSessions: this.startingCount,
+        admitting: this.isAdmitting(),
         maxSessions: config.sessions.maxSessions,
         defaultSessionDuration: config.sessions.defaultDurationMs,
         cleanupInterval: config.sessions.cleanupIntervalMs,
@@ -231,7 +812,7 @@ class SessionManager {
 
   public async healthCheck(): Promise<boolean> {
     try {
-      const dockerHealthy = await dockerService.healthCheck();
+      const dockerHealthy = await containerRuntime.healthCheck();
       const sessionStats = sessionStore.getStats();
       
       return dockerHealthy && sessionStats['redisConnected'] !== false;
@@ -243,18 +824,77 @@ class SessionManager {
     }
   }
 
+  // Detailed health of the Docker nodes and Redis, for operators
+  public async getHealthReport(): Promise<Record<string, any>> {
+    const [dockerHealthy, system] = await Promise.all([
+      containerRuntime.healthCheck(),
+      containerRuntime.getSystemStats(),
+    ]);
+    const storeStats = sessionStore.getStats();
+    const redisHealthy = !storeStats['persistenceEnabled'] || storeStats['redisConnected'] === true;
+
+    return {
+      healthy: dockerHealthy && redisHealthy,
+      docker: { healthy: dockerHealthy, ...system },
+      redis: {
+        healthy: redisHealthy,
+        enabled: storeStats['persistenceEnabled'],
+        connected: storeStats['redisConnected'],
+        storeMode: storeStats['storeMode'],
+      },
+      admission: await this.getAdmissionStatus(),
+    };
+  }
+
+  // Drains first: new starts are refused and clients warned. Sessions are then
+  // handed over (shared store, or Redis persistence for the next process to
+  // restore and adopt) or given until config.drain.deadlineMs to end before
+  // they are stopped.
   public async shutdown(): Promise<void> {
     try {
       logger.info('Shutting down session manager');
+      const handoff = sessionStore.isDistributed() || (config.sessions.persistenceEnabled && config.drain.handoff);
+      const deadline = handoff ? undefined : Date.now() + config.drain.deadlineMs;
+      this.admissionClosedAt = this.admissionClosedAt ?? Date.now();
+      this.announceMaintenance(deadline);
+
+      if (deadline !== undefined && sessionStore.getAllSessions().length > 0 && config.drain.deadlineMs > 0) {
+        logger.info('Waiting for sessions to end before shutting down', {
+          sessions: sessionStore.getAllSessions().length,
+          deadline: new Date(deadline).toISOString(),
+        });
+        await this.waitForSessionsToEnd(deadline);
+      }
+
+      this.stopWatchingExits();
+      sessionMetrics.shutdown();
+      // Sessions stopped below must not admit queued requests
+      this.shuttingDown = true;
+      admissionQueue.shutdown();
+      await Promise.allSettled(this.pendingStarts);
+
+      // Idle pool containers have no session to preserve
+      await warmPool.shutdown();
       
-      // Stop all active sessions
-      const sessions = sessionStore.getAllSessions();
-      for (const session of sessions) {
-        await this.stopSession(session.containerId);
+      // Stop the remaining sessions, unless they are handed over
+      if (sessionStore.isDistributed()) {
+        logger.info('Leaving sessions to the other instances', {
+          sessions: await sessionStore.getActiveSessionsCount(),
+        });
+      } else if (handoff) {
+        logger.info('Leaving sessions running for the next process to adopt', {
+          sessions: await sessionStore.getActiveSessionsCount(),
+        });
+      } else {
+        const sessions = sessionStore.getAllSessions();
+        for (const session of sessions) {
+          await this.stopSession(session.containerId, 'shutdown');
+        }
       }
       
       // Shutdown session store
       await sessionStore.shutdown();
+      sessionJobStore.shutdown();
       
       logger.info('Session manager shutdown complete');
     } catch (error) {
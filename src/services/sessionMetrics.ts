@@ -0,0 +1,126 @@
+import { ContainerStats, Session, SessionMetrics } from '../types';
+import containerRuntime from './containerRuntime';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+
+interface WatchedSession {
+  stop: () => void;
+  latest: ContainerStats | null;
+  history: ContainerStats[];
+  recordedAt: number;
+}
+
+// Follows the stats stream of every active session and keeps a short rolling
+// history per session in memory. Each replica watches the sessions it sees,
+// so history starts over after a restart.
+class SessionMetricsCollector {
+  private watched: Map<string, WatchedSession> = new Map();
+  private syncInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    sessionStore.on('removed', (session: Session) => {
+      this.unwatch(session.containerId);
+    });
+  }
+
+  public isEnabled(): boolean {
+    return config.sessionMetrics.enabled;
+  }
+
+  // Picks up sessions created, restored or adopted since the last round
+  public start(): void {
+    if (!this.isEnabled()) return;
+
+    this.sync();
+    this.syncInterval = setInterval(() => {
+      this.sync();
+    }, config.sessionMetrics.historyIntervalMs);
+  }
+
+  public shutdown(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+    for (const containerId of Array.from(this.watched.keys())) {
+      this.unwatch(containerId);
+    }
+  }
+
+  // Without a sample from the stream yet, Docker is asked once
+  public async getSessionMetrics(session: Session): Promise<SessionMetrics> {
+    const watched = this.isEnabled() ? this.watch(session) : undefined;
+    const current = watched?.latest || await containerRuntime.getContainerStats(session.containerId, session.node);
+
+    return {
+      containerId: session.containerId,
+      ...(session.userId ? { userId: session.userId } : {}),
+      ...(session.profile ? { profile: session.profile } : {}),
+      ...(session.node ? { node: session.node } : {}),
+      current,
+      history: watched ? [...watched.history] : [],
+    };
+  }
+
+  public async getAllSessionMetrics(): Promise<SessionMetrics[]> {
+    const sessions = sessionStore.getAllSessions()
+      .filter(session => sessionStore.isSessionActive(session.containerId));
+    return Promise.all(sessions.map(session => this.getSessionMetrics(session)));
+  }
+
+  public getStats(): Record<string, any> {
+    return {
+      enabled: this.isEnabled(),
+      watchedSessions: this.watched.size,
+    };
+  }
+
+  private sync(): void {
+    const active = sessionStore.getAllSessions()
+      .filter(session => sessionStore.isSessionActive(session.containerId));
+
+    for (const session of active) {
+      this.watch(session);
+    }
+    for (const containerId of this.watched.keys()) {
+      if (!sessionStore.isSessionActive(containerId)) {
+        this.unwatch(containerId);
+      }
+    }
+  }
+
+  private watch(session: Session): WatchedSession {
+    const existing = this.watched.get(session.containerId);
+    if (existing) return existing;
+
+    const watched: WatchedSession = { stop: () => undefined, latest: null, history: [], recordedAt: 0 };
+    this.watched.set(session.containerId, watched);
+    watched.stop = containerRuntime.watchContainerStats(session.containerId, (stats) => {
+      watched.latest = stats;
+
+      // The stream is much finer than the history needs
+      const now = Date.now();
+      if (now - watched.recordedAt >= config.sessionMetrics.historyIntervalMs) {
+        watched.recordedAt = now;
+        watched.history.push(stats);
+        if (watched.history.length > config.sessionMetrics.historySize) {
+          watched.history.shift();
+        }
+      }
+    }, session.node);
+
+    logger.debug('Watching session stats', { containerId: session.containerId, node: session.node });
+    return watched;
+  }
+
+  private unwatch(containerId: string): void {
+    const watched = this.watched.get(containerId);
+    if (watched) {
+      watched.stop();
+      this.watched.delete(containerId);
+    }
+  }
+}
+
+export default new SessionMetricsCollector();
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { EventEmitter } from 'events';
+import { ContainerUsage, ResourceLimitsConfig, Session, SessionEndReason, SessionUsage } from '../types';
+import containerRuntime from './containerRuntime';
+import profileCatalog from './profileCatalog';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+import { getHardLimits, resolveLimits } from '../utils/limits';
+
+// Samples the disk and network usage of running sessions and emits 'exceeded'
+// (session, reason, usage) for sessions over a hard limit. The latest sample
+// of each session is kept for reporting.
+class UsageMonitor extends EventEmitter {
+  private samples: Map<string, ContainerUsage> = new Map();
+  private interval: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+
+  constructor() {
+    super();
+    sessionStore.on('removed', (session: Session) => {
+      this.samples.delete(session.containerId);
+    });
+  }
+
+  public start(): void {
+    if (config.sessions.usageCheckIntervalMs > 0) {
+      this.interval = setInterval(() => {
+        this.check();
+      }, config.sessions.usageCheckIntervalMs);
+    }
+  }
+
+  public shutdown(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  public getUsage(session: Session): SessionUsage | undefined {
+    const sample = this.samples.get(session.containerId);
+    if (!sample) return undefined;
+
+    const hardLimits = getHardLimits(this.getLimits(session));
+    return {
+      ...sample,
+      diskLimitBytes: hardLimits.diskBytes,
+      transferLimitBytes: hardLimits.transferBytes,
+    };
+  }
+
+  public check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.run().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  private async run(): Promise<void> {
+    const startTime = Date.now();
+    const sessions = sessionStore.getAllSessions()
+      .filter(session => sessionStore.isSessionActive(session.containerId));
+
+    for (const session of sessions) {
+      const limits = this.getLimits(session);
+      const usage = await containerRuntime.getContainerUsage(
+        session.containerId,
+        limits.downloadQuota ? limits.downloadDir : undefined,
+        session.node
+      );
+      // Gone in the meantime, or unreachable until the next round
+      if (!usage || !sessionStore.isSessionActive(session.containerId)) continue;
+
+      this.samples.set(session.containerId, usage);
+      const reason = this.findExceededLimit(usage, limits);
+      if (reason) {
+        logger.warn('Session exceeded a hard limit', {
+          containerId: session.containerId,
+          userId: session.userId,
+          reason,
+          diskBytes: usage.diskBytes,
+          transferBytes: usage.networkRxBytes + usage.networkTxBytes,
+        });
+        this.emit('exceeded', session, reason, usage);
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    logger.debug('Session usage checked', { sessions: sessions.length, duration: `${duration}ms` });
+  }
+
+  private findExceededLimit(usage: ContainerUsage, limits: ResourceLimitsConfig): SessionEndReason | null {
+    const hardLimits = getHardLimits(limits);
+    if (hardLimits.diskBytes > 0 && usage.diskBytes > hardLimits.diskBytes) {
+      return 'disk-limit-exceeded';
+    }
+    if (hardLimits.transferBytes > 0 && usage.networkRxBytes + usage.networkTxBytes > hardLimits.transferBytes) {
+      return 'transfer-limit-exceeded';
+    }
+    return null;
+  }
+
+  // Sessions of profiles that no longer exist fall back to the global limits
+  private getLimits(session: Session): ResourceLimitsConfig {
+    return session.profile && profileCatalog.has(session.profile)
+      ? resolveLimits(profileCatalog.get(session.profile))
+      : config.docker.limits;
+  }
+}
+
+export default new UsageMonitor();
\ No newline at end of file
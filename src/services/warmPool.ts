@@ -0,0 +1,252 @@
+import { ContainerInfo } from '../types';
+import containerRuntime from './containerRuntime';
+import profileCatalog from './profileCatalog';
+import readinessProbe from './readinessProbe';
+import sessionStore from '../models/sessionStore';
+import config from '../config';
+import logger from '../utils/logger';
+import { SESSION_LABELS } from '../utils/labels';
+
+// 'unassigned' while idle, 'claimed' once handed out to a session
+export const POOL_LABEL = 'disposable-suite.pool';
+
+interface PooledContainer {
+  info: ContainerInfo;
+  profile: string;
+  createdAt: number;
+}
+
+// Keeps pre-started containers per profile so a new session only has to claim
+// one. Idle containers count against maxSessions together with live sessions;
+// in redis store mode they are tracked in Redis so other instances count them.
+class WarmPool {
+  private idle: Map<string, PooledContainer[]> = new Map();
+  private refillInterval: NodeJS.Timeout | null = null;
+  private refilling: Promise<void> | null = null;
+  private sizes: Record<string, number> = {};
+
+  constructor() {
+    for (const [name, size] of Object.entries(config.warmPool.sizes)) {
+      if (profileCatalog.has(name)) {
+        this.sizes[name] = size;
+      } else {
+        logger.warn('Ignoring warm pool size for unknown profile', { profile: name });
+      }
+    }
+
+    if (this.isEnabled()) {
+      logger.info('Warm pool enabled', { sizes: this.sizes, maxIdleMs: config.warmPool.maxIdleMs });
+      this.refillInterval = setInterval(() => {
+        this.maintain();
+      }, config.warmPool.refillIntervalMs);
+      this.scheduleRefill();
+    }
+  }
+
+  public isEnabled(): boolean {
+    return Object.keys(this.sizes).length > 0;
+  }
+
+  public isPooled(containerId: string): boolean {
+    for (const containers of this.idle.values()) {
+      if (containers.some(pooled => pooled.info.id === containerId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  public size(): number {
+    let total = 0;
+    for (const containers of this.idle.values()) {
+      total += containers.length;
+    }
+    return total;
+  }
+
+  // Hands out an idle container for the profile, or null if none is available.
+  // Its claim in the session store carries the labels a container started for
+  // the session would have.
+  public async acquire(profileName: string, labels: Record<string, string>): Promise<ContainerInfo | null> {
+    const containers = this.idle.get(profileName);
+
+    while (containers && containers.length > 0) {
+      const pooled = containers.shift()!;
+      sessionStore.untrackPooledContainer(pooled.info.id);
+      const port = profileCatalog.get(pooled.profile).ports[0];
+      const current = await containerRuntime.getContainerInfo(pooled.info.id, port, pooled.info.node);
+
+      if (!current || current.status !== 'running') {
+        logger.warn('Discarding dead warm pool container', { containerId: pooled.info.id, profile: profileName });
+        continue;
+      }
+
+      try {
+        const expiresAt = Date.parse(labels[SESSION_LABELS.expiresAt] || '');
+        await sessionStore.recordPoolClaim(pooled.info.id, { ...labels, [POOL_LABEL]: 'claimed' }, expiresAt);
+      } catch (error) {
+        // Without the claim the session could not be adopted after a restart
+        logger.warn('Discarding warm pool container whose claim could not be recorded', {
+          containerId: pooled.info.id,
+          profile: profileName,
+          error: (error as Error).message,
+        });
+        await containerRuntime.stopContainer(pooled.info.id, pooled.info.node);
+        continue;
+      }
+
+      logger.info('Warm pool container assigned', {
+        containerId: pooled.info.id,
+        profile: profileName,
+        idleMs: Date.now() - pooled.createdAt,
+      });
+      this.scheduleRefill();
+      return pooled.info;
+    }
+
+    this.scheduleRefill();
+    return null;
+  }
+
+  // Frees a slot taken by an idle container of another profile so a cold start fits
+  public async makeRoom(profileName: string): Promise<void> {
+    if (await sessionStore.getActiveSessionsCount() + this.size() < config.sessions.maxSessions) {
+      return;
+    }
+
+    const victim = Array.from(this.idle.entries())
+      .filter(([name, containers]) => name !== profileName && containers.length > 0)
+      .sort(([, a], [, b]) => b.length - a.length)[0];
+
+    if (victim) {
+      const pooled = victim[1].pop()!;
+      sessionStore.untrackPooledContainer(pooled.info.id);
+      logger.info('Evicting warm pool container to make room', {
+        containerId: pooled.info.id,
+        profile: pooled.profile,
+        requestedProfile: profileName,
+      });
+      await containerRuntime.stopContainer(pooled.info.id, pooled.info.node);
+    }
+  }
+
+  public getStats(): Record<string, any> {
+    const idle: Record<string, number> = {};
+    for (const [name, containers] of this.idle) {
+      idle[name] = containers.length;
+    }
+    return {
+      enabled: this.isEnabled(),
+      targetSizes: this.sizes,
+      idle,
+    };
+  }
+
+  public async shutdown(): Promise<void> {
+    if (this.refillInterval) {
+      clearInterval(this.refillInterval);
+      this.refillInterval = null;
+    }
+    if (this.refilling) {
+      await this.refilling;
+    }
+
+    const containers = Array.from(this.idle.values()).flat();
+    this.idle.clear();
+    for (const pooled of containers) {
+      sessionStore.untrackPooledContainer(pooled.info.id);
+      await containerRuntime.stopContainer(pooled.info.id, pooled.info.node);
+    }
+
+    if (containers.length > 0) {
+      logger.info('Warm pool drained', { stopped: containers.length });
+    }
+  }
+
+  private scheduleRefill(): void {
+    if (!this.isEnabled() || this.refilling) {
+      return;
+    }
+
+    this.refilling = this.refill().finally(() => {
+      this.refilling = null;
+    });
+  }
+
+  private async maintain(): Promise<void> {
+    await this.recycleIdle();
+    for (const pooled of Array.from(this.idle.values()).flat()) {
+      sessionStore.trackPooledContainer(pooled.info.id);
+    }
+    this.scheduleRefill();
+  }
+
+  private async refill(): Promise<void> {
+    for (const [name, target] of Object.entries(this.sizes)) {
+      const profile = profileCatalog.get(name);
+
+      while ((this.idle.get(name)?.length || 0) < target) {
+        // Live sessions always take precedence over idle capacity
+        if (await sessionStore.getActiveSessionsCount() + this.size() >= config.sessions.maxSessions) {
+          return;
+        }
+        // Across instances, with the sessions, starts and pools of the others
+        const leaseId = await sessionStore.claimStartLease(config.sessions.maxSessions, true).catch((error: Error) => {
+          logger.error('Failed to claim a slot for the warm pool', { profile: name, error: error.message });
+          return null;
+        });
+        if (!leaseId) {
+          return;
+        }
+
+        try {
+          const info = await containerRuntime.startContainer(profile, { labels: { [POOL_LABEL]: 'unassigned' } });
+          // Only ready containers join the pool, so claiming one needs no probe
+          if (readinessProbe.isEnabled()) {
+            try {
+              await readinessProbe.waitUntilReady(
+                info.id,
+                { host: info.host || containerRuntime.getContainerHost(info.node), port: info.hostPort },
+                readinessProbe.getHealthCheck(profile)
+              );
+            } catch (error) {
+              await containerRuntime.stopContainer(info.id, info.node);
+              throw error;
+            }
+          }
+          const containers = this.idle.get(name) || [];
+          containers.push({ info, profile: name, createdAt: Date.now() });
+          this.idle.set(name, containers);
+          sessionStore.trackPooledContainer(info.id);
+        } catch (error) {
+          logger.error('Failed to refill warm pool', {
+            profile: name,
+            error: (error as Error).message,
+          });
+          break;
+        } finally {
+          sessionStore.releaseStartLease(leaseId);
+        }
+      }
+    }
+  }
+
+  // Long-idle containers are replaced so sessions never start from stale state
+  private async recycleIdle(): Promise<void> {
+    const cutoff = Date.now() - config.warmPool.maxIdleMs;
+
+    for (const [name, containers] of this.idle) {
+      const stale = containers.filter(pooled => pooled.createdAt <= cutoff);
+      if (stale.length === 0) continue;
+
+      this.idle.set(name, containers.filter(pooled => pooled.createdAt > cutoff));
+      for (const pooled of stale) {
+        sessionStore.untrackPooledContainer(pooled.info.id);
+        logger.info('Recycling idle warm pool container', { containerId: pooled.info.id, profile: name });
+        await containerRuntime.stopContainer(pooled.info.id, pooled.info.node);
+      }
+    }
+  }
+}
+
+export default new WarmPool();
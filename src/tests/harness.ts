@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import type { EventEmitter } from 'events';
+import { Writable } from 'stream';
+import type { Express } from 'express';
+import { transports } from 'winston';
+import type * as AppModule from '../app';
+import type * as SessionStoreModule from '../models/sessionStore';
+import type * as SessionJobStoreModule from '../models/sessionJobStore';
+import type * as AdmissionQueueModule from '../services/admissionQueue';
+import type * as AuthServiceModule from '../services/authService';
+import type * as ContainerRuntimeModule from '../services/containerRuntime';
+import type { FakeRuntime } from '../services/fakeRuntime';
+import type * as ReconcilerModule from '../services/reconciler';
+import type * as SessionEventsModule from '../services/sessionEvents';
+import type * as SessionManagerModule from '../services/sessionManager';
+import type * as UsageMonitorModule from '../services/usageMonitor';
+import type * as LoggerModule from '../utils/logger';
+
+// ioredis-mock keeps its data per host:port inside the module instance. Holding
+// one instance here, outside the module registry, lets a reloaded app see what
+// the previous one wrote, like a restarted process reconnecting to Redis.
+interface MockClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+  flushall(): Promise<unknown>;
+  publish(channel: string, message: string): Promise<number>;
+  decr(key: string): Promise<number>;
+  del(...keys: string[]): Promise<number>;
+  disconnect(): void;
+}
+
+// ioredis-mock internals: what a client shares with the others on the same host
+interface MockContext {
+  context: { modifiedKeyEvents: EventEmitter };
+}
+
+const IORedisMock: new (...args: unknown[]) => MockClient = jest.requireActual('ioredis-mock');
+const loadedScripts = new Map<string, string>();
+// Every client listens to the shared data until it disconnects, so the clients
+// an app opens are closed with it. An app in persistence mode holds up to eight
+// clients and tests run two replicas side by side.
+const openedClients: MockClient[] = [];
+const MAX_OPEN_CLIENTS = 20;
+
+// rate-limit-redis talks to Redis through call(), which ioredis-mock lacks,
+// and loads its scripts with SCRIPT LOAD
+class RedisMock extends IORedisMock {
+  constructor(...args: unknown[]) {
+    super(...args);
+    (this as unknown as MockContext).context.modifiedKeyEvents.setMaxListeners(MAX_OPEN_CLIENTS);
+    openedClients.push(this);
+  }
+
+  public async call(command: string, ...args: Array<string | number>): Promise<unknown> {
+    const name = command.toLowerCase();
+    if (name === 'script' && String(args[0]).toLowerCase() === 'load') {
+      const script = String(args[1]);
+      const sha = createHash('sha1').update(script).digest('hex');
+      loadedScripts.set(sha, script);
+      return sha;
+    }
+    if (name === 'evalsha') {
+      const script = loadedScripts.get(String(args[0]));
+      if (!script) {
+        throw new Error('NOSCRIPT No matching script. Please use EVAL.');
+      }
+      return this.eval(script, Number(args[1]), ...args.slice(2));
+    }
+    if (name === 'decr') {
+      return this.decr(String(args[0]));
+    }
+    if (name === 'del') {
+      return this.del(...args.map(String));
+    }
+    throw new Error(`ERR unsupported command '${command}'`);
+  }
+}
+
+export interface TestApp {
+  app: Express;
+  sessionManager: typeof SessionManagerModule.default;
+  sessionStore: typeof SessionStoreModule.default;
+  runtime: FakeRuntime;
+  usageMonitor: typeof UsageMonitorModule.default;
+  authService: typeof AuthServiceModule.default;
+  admissionQueue: typeof AdmissionQueueModule.default;
+  reconciler: typeof ReconcilerModule.default;
+  sessionEvents: typeof SessionEventsModule.default;
+  // Stops timers and connections but leaves sessions and containers alone,
+  // like a process that died
+  crash(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+// Loads a fresh copy of the app with its own singletons. Configuration is read
+// at import time, so env only applies to this copy.
+export const loadApp = (env: Record<string, string> = {}): TestApp => {
+  const previousEnv = process.env;
+  process.env = { ...previousEnv, CONTAINER_RUNTIME: 'fake', ...env };
+
+  try {
+    jest.resetModules();
+    jest.doMock('ioredis', () => RedisMock);
+    openedClients.splice(0);
+
+    const app = jest.requireActual<typeof AppModule>('../app').default;
+    const sessionManager = jest.requireActual<typeof SessionManagerModule>('../services/sessionManager').default;
+    const sessionStore = jest.requireActual<typeof SessionStoreModule>('../models/sessionStore').default;
+    const runtime = jest.requireActual<typeof ContainerRuntimeModule>('../services/containerRuntime').default as FakeRuntime;
+    const usageMonitor = jest.requireActual<typeof UsageMonitorModule>('../services/usageMonitor').default;
+    const authService = jest.requireActual<typeof AuthServiceModule>('../services/authService').default;
+    const reconciler = jest.requireActual<typeof ReconcilerModule>('../services/reconciler').default;
+    const sessionJobStore = jest.requireActual<typeof SessionJobStoreModule>('../models/sessionJobStore').default;
+    const admissionQueue = jest.requireActual<typeof AdmissionQueueModule>('../services/admissionQueue').default;
+    const sessionEvents = jest.requireActual<typeof SessionEventsModule>('../services/sessionEvents').default;
+    const redisClients = openedClients.splice(0);
+
+    return {
+      app,
+      sessionManager,
+      sessionStore,
+      runtime,
+      usageMonitor,
+      authService,
+      admissionQueue,
+      reconciler,
+      sessionEvents,
+      crash: async () => {
+        admissionQueue.shutdown();
+        sessionJobStore.shutdown();
+        await sessionStore.shutdown();
+        redisClients.forEach(client => client.disconnect());
+      },
+      shutdown: async () => {
+        await sessionManager.shutdown();
+        await runtime.reset();
+        redisClients.forEach(client => client.disconnect());
+      },
+    };
+  } finally {
+    process.env = previousEnv;
+  }
+};
+
+// Another client of the shared in-memory Redis; disconnect it when done
+export const connectRedis = (): MockClient => new RedisMock();
+
+// Clears the shared in-memory Redis between suites
+export const flushRedis = async (): Promise<void> => {
+  const redis = new RedisMock();
+  await redis.flushall();
+  redis.disconnect();
+};
+
+// Records what the most recently loaded app logs at info level, without printing it
+export const captureLogs = (): Array<Record<string, unknown>> => {
+  const logger = jest.requireActual<typeof LoggerModule>('../utils/logger').default;
+  const entries: Array<Record<string, unknown>> = [];
+  logger.level = 'info';
+  logger.transports.forEach((transport) => {
+    transport.silent = true;
+  });
+  logger.add(new transports.Stream({
+    stream: new Writable({
+      objectMode: true,
+      write: (entry: Record<string, unknown>, _encoding: string, done: () => void) => {
+        entries.push(entry);
+        done();
+      },
+    }),
+  }));
+  return entries;
+};
+
+// Resolves on the next emission of the event
+export const nextEvent = (emitter: NodeJS.EventEmitter, event: string): Promise<unknown[]> =>
+  new Promise(resolve => {
+    emitter.once(event, (...args: unknown[]) => resolve(args));
+  });
+
+// Polls until the check passes, for state that settles asynchronously
+export const waitFor = async (check: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
\ No newline at end of file
@@ -0,0 +1,156 @@
+import request from 'supertest';
+import type { ContainerInfo, SessionProfile, StartContainerOptions } from '../../types';
+import { captureLogs, flushRedis, loadApp, TestApp, waitFor } from '../harness';
+
+const ASYNC_ENV = {
+  READINESS_INTERVAL_MS: '50',
+  // Fake containers answer 200, which this profile does not accept as ready
+  SESSION_PROFILES: JSON.stringify([{
+    name: 'stuck',
+    healthCheck: { path: '/', timeoutMs: 300, intervalMs: 50, expectedStatus: [204] },
+  }]),
+};
+
+describe('Async session start', () => {
+  let harness: TestApp;
+  let entries: Array<Record<string, unknown>>;
+
+  const startAsync = (body: Record<string, unknown> = {}) =>
+    request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000, async: true, ...body });
+  const getStatus = (sessionId: string) => request(harness.app).get(`/api/browser/sessions/${sessionId}/status`);
+  // Every state the job went through after 'queued', from the job store's log
+  const statesOf = (jobId: string) => entries
+    .filter(entry => entry['message'] === 'Session job updated' && entry['jobId'] === jobId)
+    .map(entry => entry['state']);
+
+  // Holds the start in the pull phase until the returned function is called
+  const holdPull = (): (() => void) => {
+    const startContainer = harness.runtime.startContainer.bind(harness.runtime);
+    let release!: () => void;
+    const pulled = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    jest.spyOn(harness.runtime, 'startContainer').mockImplementationOnce(
+      async (profile: SessionProfile, options: StartContainerOptions = {}): Promise<ContainerInfo> => {
+        const { onPhase } = options;
+        onPhase?.('pulling');
+        await pulled;
+        // Without reporting the pull a second time
+        return startContainer(profile, {
+          ...options,
+          onPhase: (phase) => {
+            if (phase !== 'pulling') onPhase?.(phase);
+          },
+        });
+      }
+    );
+    return release;
+  };
+
+  beforeEach(() => {
+    harness = loadApp(ASYNC_ENV);
+    entries = captureLogs();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await harness.shutdown();
+  });
+
+  it('moves the job through queued, pulling and starting to ready', async () => {
+    const release = holdPull();
+
+    const accepted = await startAsync().expect(202);
+    const { sessionId, state, statusUrl } = accepted.body.data;
+    expect(state).toBe('queued');
+    expect(statusUrl).toBe(`/api/browser/sessions/${sessionId}/status`);
+
+    await waitFor(async () => (await getStatus(sessionId).expect(200)).body.data.state === 'pulling');
+    release();
+
+    let ready: request.Response | undefined;
+    await waitFor(async () => {
+      ready = await getStatus(sessionId).expect(200);
+      return ready.body.data.state === 'ready';
+    });
+    expect(ready!.body.data.containerId).toEqual(expect.any(String));
+    expect(ready!.body.data.session).toMatchObject({ containerId: ready!.body.data.containerId });
+    expect(statesOf(sessionId)).toEqual(['pulling', 'starting', 'ready']);
+  });
+
+  it('keeps the reason of a start that failed', async () => {
+    jest.spyOn(harness.runtime, 'startContainer').mockImplementationOnce(async (_profile, options = {}) => {
+      options.onPhase?.('pulling');
+      throw new Error('pull access denied for disposable-browser-chromium');
+    });
+
+    const accepted = await startAsync().expect(202);
+    const { sessionId } = accepted.body.data;
+
+    let failed: request.Response | undefined;
+    await waitFor(async () => {
+      failed = await getStatus(sessionId).expect(200);
+      return failed.body.data.state === 'failed';
+    });
+    expect(failed!.body.data.error).toBe('pull access denied for disposable-browser-chromium');
+    expect(failed!.body.data).not.toHaveProperty('containerId');
+    expect(statesOf(sessionId)).toEqual(['pulling', 'failed']);
+  });
+
+  it('fails the job when the container does not become ready', async () => {
+    const accepted = await startAsync({ profile: 'stuck' }).expect(202);
+    const { sessionId } = accepted.body.data;
+
+    let failed: request.Response | undefined;
+    await waitFor(async () => {
+      failed = await getStatus(sessionId).expect(200);
+      return failed.body.data.state === 'failed';
+    });
+    expect(failed!.body.data.error).toMatch(/Container did not become ready within 300ms/);
+    expect(statesOf(sessionId)).toEqual(['pulling', 'starting', 'failed']);
+    expect(await harness.runtime.getActiveContainersCount()).toBe(0);
+  });
+});
+
+describe('Async session start across restarts', () => {
+  const running: TestApp[] = [];
+  const start = (): TestApp => {
+    const harness = loadApp({ ...ASYNC_ENV, SESSION_PERSISTENCE_ENABLED: 'true' });
+    running.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    for (const harness of running.splice(0)) {
+      await harness.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('fails the jobs a restart interrupted', async () => {
+    const first = start();
+    let release!: () => void;
+    const pulled = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    jest.spyOn(first.runtime, 'startContainer').mockImplementationOnce(async (_profile, options = {}) => {
+      options.onPhase?.('pulling');
+      await pulled;
+      throw new Error('The process was restarted');
+    });
+
+    const accepted = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 60000, async: true })
+      .expect(202);
+    const { sessionId } = accepted.body.data;
+    await first.crash();
+
+    const second = start();
+    const status = await request(second.app).get(`/api/browser/sessions/${sessionId}/status`).expect(200);
+    expect(status.body.data).toMatchObject({ state: 'failed', error: 'interrupted' });
+    release();
+  });
+});
\ No newline at end of file
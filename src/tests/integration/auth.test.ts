@@ -0,0 +1,198 @@
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { captureLogs, loadApp, TestApp } from '../harness';
+
+const API_KEY = 'ops.6f1c2e9b4d';
+const AUTH_ENV = {
+  AUTH_ENABLED: 'true',
+  MAX_SESSIONS: '5',
+  API_KEYS: JSON.stringify([{ id: 'ops', userId: 'ops', hash: bcrypt.hashSync(API_KEY, 4), roles: ['admin'] }]),
+};
+
+describe('Authentication', () => {
+  let harness: TestApp;
+  let alice: string;
+  let bob: string;
+
+  const startSession = (token: string) =>
+    request(harness.app)
+      .post('/api/browser/start-session')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ durationMs: 60000 });
+
+  beforeEach(() => {
+    harness = loadApp(AUTH_ENV);
+    alice = harness.authService.issueToken({ userId: 'alice', roles: [] });
+    bob = harness.authService.issueToken({ userId: 'bob', roles: [] });
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('rejects requests without valid credentials', async () => {
+    const missing = await request(harness.app).post('/api/browser/start-session').send({}).expect(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body.error).toBe('Authentication required');
+
+    const forged = await startSession('not-a-jwt').expect(401);
+    expect(forged.body.error).toBe('Invalid or expired credentials');
+    await request(harness.app).get('/api/browser/sessions').set('X-API-Key', 'ops.wrong').expect(401);
+
+    // Session access tokens only open the proxy and the event stream
+    const started = await startSession(alice).expect(201);
+    await startSession(started.body.data.accessToken).expect(401);
+  });
+
+  it('identifies callers by JWT or API key', async () => {
+    const started = await startSession(alice).expect(201);
+    expect(started.body.data.userId).toBe('alice');
+    expect(started.body.data.publicBrowserUrl).toContain('?access_token=');
+
+    const denied = await request(harness.app)
+      .get('/api/admin/sessions')
+      .set('Authorization', `Bearer ${alice}`)
+      .expect(403);
+    expect(denied.body.error).toBe('The admin role is required');
+
+    const listed = await request(harness.app).get('/api/admin/sessions').set('X-API-Key', API_KEY).expect(200);
+    expect(listed.body.data.sessions).toEqual([expect.objectContaining({ userId: 'alice' })]);
+  });
+
+  it('keeps sessions to their owner and admins', async () => {
+    const started = await startSession(alice).expect(201);
+    const { containerId } = started.body.data;
+
+    await request(harness.app)
+      .post('/api/browser/extend-session')
+      .set('Authorization', `Bearer ${bob}`)
+      .send({ containerId, extendByMs: 60000 })
+      .expect(403);
+    await request(harness.app)
+      .get('/api/browser/remaining-time')
+      .set('Authorization', `Bearer ${bob}`)
+      .query({ containerId })
+      .expect(403);
+    await request(harness.app)
+      .get(`/api/browser/proxy/${containerId}/`)
+      .set('Authorization', `Bearer ${bob}`)
+      .expect(403);
+    await request(harness.app)
+      .get(`/api/browser/sessions/${containerId}/events`)
+      .set('Authorization', `Bearer ${bob}`)
+      .expect(403);
+    const stop = await request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('Authorization', `Bearer ${bob}`)
+      .send({ containerId })
+      .expect(403);
+    expect(stop.body.error).toBe('You do not have access to this session');
+
+    await request(harness.app)
+      .post('/api/browser/extend-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId, extendByMs: 60000 })
+      .expect(200);
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('X-API-Key', API_KEY)
+      .send({ containerId })
+      .expect(200);
+    expect(harness.sessionStore.getSession(containerId)).toBeUndefined();
+  });
+
+  it('lists and shows callers only their own sessions', async () => {
+    const first = await startSession(alice).expect(201);
+    const second = await startSession(alice).expect(201);
+    const bobs = await startSession(bob).expect(201);
+    const list = (credentials: [string, string]) =>
+      request(harness.app).get('/api/browser/sessions').set(...credentials).expect(200);
+
+    const listed = await list(['Authorization', `Bearer ${alice}`]);
+    expect(listed.body.data.sessions).toEqual([
+      expect.objectContaining({ containerId: first.body.data.containerId, userId: 'alice', image: expect.any(String) }),
+      expect.objectContaining({ containerId: second.body.data.containerId, userId: 'alice' }),
+    ]);
+    expect(listed.body.data.sessions[0]).toMatchObject({
+      remainingTimeMs: expect.any(Number),
+      createdAt: expect.any(String),
+    });
+    expect((await list(['Authorization', `Bearer ${bob}`])).body.data.sessions).toEqual([
+      expect.objectContaining({ containerId: bobs.body.data.containerId }),
+    ]);
+    // The listing is per owner even for admins, who use /api/admin/sessions for the fleet
+    expect((await list(['X-API-Key', API_KEY])).body.data.sessions).toEqual([]);
+
+    const shown = await request(harness.app)
+      .get(`/api/browser/sessions/${first.body.data.containerId}`)
+      .set('Authorization', `Bearer ${alice}`)
+      .expect(200);
+    expect(shown.body.data).toMatchObject({ containerId: first.body.data.containerId, userId: 'alice' });
+    const foreign = await request(harness.app)
+      .get(`/api/browser/sessions/${first.body.data.containerId}`)
+      .set('Authorization', `Bearer ${bob}`)
+      .expect(404);
+    expect(foreign.body.error).toBe('Session not found or already expired');
+    await request(harness.app)
+      .get(`/api/browser/sessions/${first.body.data.containerId}`)
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId: first.body.data.containerId })
+      .expect(200);
+    expect((await list(['Authorization', `Bearer ${alice}`])).body.data.sessions).toEqual([
+      expect.objectContaining({ containerId: second.body.data.containerId }),
+    ]);
+  });
+
+  it('exchanges the session access token for a cookie on the proxy', async () => {
+    const started = await startSession(alice).expect(201);
+    const { containerId, accessToken } = started.body.data;
+    const other = await startSession(alice).expect(201);
+
+    await request(harness.app).get(`/api/browser/proxy/${containerId}/`).expect(401);
+    await request(harness.app)
+      .get(`/api/browser/proxy/${containerId}/`)
+      .query({ access_token: other.body.data.accessToken })
+      .expect(401);
+
+    const exchanged = await request(harness.app)
+      .get(`/api/browser/proxy/${containerId}/`)
+      .query({ access_token: accessToken })
+      .expect(200);
+    const [cookie] = exchanged.headers['set-cookie'] as unknown as string[];
+    expect(cookie).toMatch(new RegExp(`^ds_access_${containerId.slice(0, 12)}=.+; Path=/; HttpOnly; SameSite=Lax$`));
+
+    await request(harness.app)
+      .get(`/api/browser/proxy/${containerId}/`)
+      .set('Cookie', cookie!.split(';')[0]!)
+      .expect(200);
+  });
+
+  it('keeps the credentials out of the logs and away from the container', async () => {
+    const entries = captureLogs();
+    const started = await startSession(alice).expect(201);
+    const { containerId, accessToken } = started.body.data;
+
+    await request(harness.app)
+      .get(`/api/browser/proxy/${containerId}/app.js?lang=en&access_token=${accessToken}`)
+      .set('Authorization', `Bearer ${alice}`)
+      .set('X-API-Key', API_KEY)
+      .set('Cookie', `theme=dark; ds_access_${containerId.slice(0, 12)}=${accessToken}`)
+      .expect(200);
+
+    // The readiness probe came first
+    const forwarded = harness.runtime.getReceivedRequests(containerId).pop();
+    expect(forwarded?.url).toBe('/app.js?lang=en');
+    expect(forwarded?.headers).not.toHaveProperty('authorization');
+    expect(forwarded?.headers).not.toHaveProperty('x-api-key');
+    expect(forwarded?.headers['cookie']).toBe('theme=dark');
+
+    const logged = JSON.stringify(entries);
+    expect(logged).toContain('access_token=REDACTED');
+    expect(logged).not.toContain(accessToken);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,88 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { loadApp, TestApp, waitFor } from '../harness';
+
+interface StreamedEvent {
+  type: string;
+  data: Record<string, any>;
+}
+
+interface EventStream {
+  headers: http.IncomingHttpHeaders;
+  events: StreamedEvent[];
+  // Resolves once the server ends the stream
+  ended: Promise<void>;
+}
+
+// With a session of 60s extended by 60s, only the extension brings the
+// session within reach of this warning, which then fires after 500ms
+const EVENTS_ENV = { SESSION_WARNING_THRESHOLDS_MS: '119500' };
+
+describe('Session event stream', () => {
+  let harness: TestApp;
+  let server: http.Server;
+
+  const openStream = (containerId: string): Promise<EventStream> => new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    http.get({ host: '127.0.0.1', port, path: `/api/browser/sessions/${containerId}/events` }, (response) => {
+      const events: StreamedEvent[] = [];
+      let buffered = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        buffered += chunk;
+        const messages = buffered.split('\n\n');
+        buffered = messages.pop() || '';
+        for (const message of messages) {
+          const type = /^event: (.+)$/m.exec(message)?.[1] || '';
+          const data = /^data: (.+)$/m.exec(message)?.[1] || '{}';
+          events.push({ type, data: JSON.parse(data) });
+        }
+      });
+      resolve({ headers: response.headers, events, ended: new Promise(done => response.on('end', () => done())) });
+    }).on('error', reject);
+  });
+
+  beforeEach(async () => {
+    harness = loadApp(EVENTS_ENV);
+    server = http.createServer(harness.app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await harness.shutdown();
+  });
+
+  it('streams the snapshot and lifecycle events, then closes after the stop', async () => {
+    const started = await request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(201);
+    const { containerId } = started.body.data;
+
+    const stream = await openStream(containerId);
+    expect(stream.headers['content-type']).toMatch(/^text\/event-stream/);
+    await waitFor(() => stream.events.length === 1);
+    expect(stream.events[0]).toEqual({
+      type: 'session',
+      data: expect.objectContaining({ containerId, expiresAt: started.body.data.expiresAt }),
+    });
+
+    await request(harness.app).post('/api/browser/extend-session').send({ containerId, extendByMs: 60000 }).expect(200);
+    await waitFor(() => stream.events.some(event => event.type === 'expiring-soon'));
+
+    await request(harness.app).post('/api/browser/stop-session').send({ containerId }).expect(200);
+    await stream.ended;
+
+    expect(stream.events.map(event => event.type)).toEqual(['session', 'extended', 'expiring-soon', 'stopped']);
+    const [, extended, expiringSoon, stopped] = stream.events;
+    expect(extended!.data).toMatchObject({ containerId, expiresAt: started.body.data.expiresAt + 60000 });
+    expect(expiringSoon!.data['remainingTimeMs']).toBeLessThanOrEqual(119500);
+    expect(stopped!.data).toMatchObject({ containerId, reason: 'user-stopped', remainingTimeMs: 0 });
+    expect(harness.sessionManager.getStats()['events']).toEqual({ subscribers: 0 });
+  });
+
+  it('refuses streams of unknown sessions', async () => {
+    const response = await request(harness.app).get('/api/browser/sessions/unknown-container/events').expect(404);
+    expect(response.body.error).toBe('Session not found or already expired');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,468 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { captureLogs, loadApp, nextEvent, TestApp } from '../harness';
+import type { SessionEvent } from '../../types';
+
+const startSession = (harness: TestApp, body: Record<string, unknown> = {}) =>
+  request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000, ...body });
+
+// Collects the events published to a session's clients
+const watchEvents = (harness: TestApp, containerId: string): SessionEvent[] => {
+  const events: SessionEvent[] = [];
+  harness.sessionEvents.subscribe(containerId, (event: SessionEvent) => {
+    events.push(event);
+  });
+  return events;
+};
+
+describe('Session lifecycle on the fake runtime', () => {
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp({ MAX_SESSIONS: '2' });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await harness.shutdown();
+  });
+
+  it('starts, extends and stops a session', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+    expect(await harness.runtime.getContainerInfo(containerId)).not.toBeNull();
+
+    const extended = await request(harness.app)
+      .post('/api/browser/extend-session')
+      .send({ containerId, extendByMs: 60000 })
+      .expect(200);
+    expect(extended.body.data.extended).toBe(true);
+    expect(await harness.sessionStore.getRemainingTime(containerId)).toBeGreaterThan(60000);
+
+    await request(harness.app).post('/api/browser/stop-session').send({ containerId }).expect(200);
+    expect(harness.sessionStore.getSession(containerId)).toBeUndefined();
+    expect(await harness.runtime.getContainerInfo(containerId)).toBeNull();
+  });
+
+  it('expires a session when its time is up', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+
+    const removed = nextEvent(harness.sessionStore, 'removed');
+    jest.advanceTimersByTime(60000);
+    const [session, reason] = await removed;
+
+    expect(session).toMatchObject({ containerId });
+    expect(reason).toBe('expired');
+    expect(await harness.runtime.getContainerInfo(containerId)).toBeNull();
+    await request(harness.app).get('/api/browser/remaining-time').query({ containerId }).expect(404);
+  });
+
+  it('refuses sessions beyond MAX_SESSIONS', async () => {
+    await startSession(harness).expect(201);
+    await startSession(harness).expect(201);
+
+    const refused = await startSession(harness).expect(429);
+    expect(refused.body.error).toMatch(/Maximum number of sessions \(2\) reached/);
+    expect(await harness.runtime.getActiveContainersCount()).toBe(2);
+  });
+
+  it('ends a session whose container crashes', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+
+    const removed = nextEvent(harness.sessionStore, 'removed');
+    await harness.runtime.crashContainer(containerId);
+    const [, reason] = await removed;
+
+    expect(reason).toBe('container-crashed');
+  });
+
+  it('proxies to a running session and answers 404 for unknown ones', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+
+    const proxied = await request(harness.app).get(`/api/browser/proxy/${containerId}/`).expect(200);
+    expect(proxied.text).toContain(containerId);
+
+    const missing = await request(harness.app).get('/api/browser/proxy/unknown123/').expect(404);
+    expect(missing.body.error).toBe('Session not found or not active');
+  });
+});
+
+describe('Session metrics', () => {
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp();
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('reports current stats and history of a session', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+    harness.runtime.setUsage(containerId, { networkRxBytes: 4096 });
+
+    const first = await request(harness.app).get(`/api/browser/sessions/${containerId}/metrics`).expect(200);
+    expect(first.body.data).toMatchObject({ containerId, current: { networkRxBytes: 4096, pids: 1 } });
+
+    // The stats stream delivers its first sample right after watching starts
+    await new Promise(resolve => setImmediate(resolve));
+    const second = await request(harness.app).get(`/api/browser/sessions/${containerId}/metrics`).expect(200);
+    expect(second.body.data.history).toHaveLength(1);
+
+    await request(harness.app).get('/api/browser/sessions/unknown123/metrics').expect(404);
+  });
+
+  it('aggregates all sessions for admins', async () => {
+    await startSession(harness).expect(201);
+    await startSession(harness).expect(201);
+
+    const listed = await request(harness.app).get('/api/admin/sessions/metrics').expect(200);
+    expect(listed.body.data.sessions).toHaveLength(2);
+    expect(listed.body.data.totals).toMatchObject({ sessions: 2, pids: 2 });
+  });
+});
+
+describe('Resource limits', () => {
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp({ SESSION_DISK_LIMIT: '100m', SESSION_MAX_TRANSFER: '1g' });
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('reports the usage of a session', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+    harness.runtime.setUsage(containerId, { diskBytes: 1024, networkRxBytes: 2048 });
+
+    await harness.usageMonitor.check();
+
+    const session = await request(harness.app).get(`/api/browser/sessions/${containerId}`).expect(200);
+    expect(session.body.data.usage).toMatchObject({
+      diskBytes: 1024,
+      networkRxBytes: 2048,
+      diskLimitBytes: 100 * 1024 * 1024,
+      transferLimitBytes: 1024 * 1024 * 1024,
+    });
+  });
+
+  it.each([
+    [{ diskBytes: 101 * 1024 * 1024 }, 'disk-limit-exceeded'],
+    [{ networkRxBytes: 600 * 1024 * 1024, networkTxBytes: 600 * 1024 * 1024 }, 'transfer-limit-exceeded'],
+  ])('ends a session over a hard limit', async (usage, expectedReason) => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+    harness.runtime.setUsage(containerId, usage);
+
+    const removed = nextEvent(harness.sessionStore, 'removed');
+    await harness.usageMonitor.check();
+    const [, reason] = await removed;
+
+    expect(reason).toBe(expectedReason);
+    expect(await harness.runtime.getContainerInfo(containerId)).toBeNull();
+  });
+});
+
+describe('Prometheus metrics', () => {
+  let harness: TestApp;
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('serves metrics on the API port only with a token', async () => {
+    harness = loadApp({ METRICS_TOKEN: 'scrape-secret' });
+    const started = await startSession(harness).expect(201);
+    await request(harness.app).post('/api/browser/stop-session').send({ containerId: started.body.data.containerId });
+
+    await request(harness.app).get('/metrics').expect(401);
+    const scraped = await request(harness.app)
+      .get('/metrics')
+      .set('Authorization', 'Bearer scrape-secret')
+      .expect(200);
+
+    expect(scraped.text).toContain('disposable_sessions_created_total{profile="default",from_pool="false"} 1');
+    expect(scraped.text).toContain('disposable_sessions_ended_total{reason="user-stopped"} 1');
+    expect(scraped.text).toContain('disposable_sessions_active 0');
+    expect(scraped.text).toContain('disposable_session_start_duration_seconds_bucket');
+  });
+
+  it('keeps metrics off the API port without a token', async () => {
+    harness = loadApp();
+    await request(harness.app).get('/metrics').expect(404);
+  });
+});
+
+describe('Rate limiting', () => {
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp({ MAX_SESSIONS: '20', RATE_LIMIT_MAX_REQUESTS: '3' });
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('limits requests per IP', async () => {
+    for (let i = 0; i < 3; i++) {
+      await request(harness.app).get('/api/browser/profiles').expect(200);
+    }
+
+    const limited = await request(harness.app).get('/api/browser/profiles').expect(429);
+    expect(limited.body.success).toBe(false);
+  });
+
+  it('does not count health checks', async () => {
+    for (let i = 0; i < 5; i++) {
+      await request(harness.app).get('/health').expect(200);
+    }
+  });
+});
+
+describe('Request IDs', () => {
+  let harness: TestApp;
+  let entries: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    harness = loadApp();
+    entries = captureLogs();
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('echoes the caller\'s ID and tags the log lines of the request', async () => {
+    const started = await startSession(harness).set('X-Request-Id', 'client-req-1').expect(201);
+
+    expect(started.headers['x-request-id']).toBe('client-req-1');
+    expect(started.body.requestId).toBe('client-req-1');
+    const tagged = entries.filter(entry => entry['requestId'] === 'client-req-1').map(entry => entry['message']);
+    expect(tagged).toEqual(expect.arrayContaining([
+      'Creating new session',
+      'Fake container started',
+      'Session action',
+      'HTTP request',
+    ]));
+  });
+
+  it('generates an ID for error responses and replaces malformed ones', async () => {
+    const missing = await request(harness.app).get('/api/unknown').set('X-Request-Id', 'not valid!').expect(404);
+
+    const id = missing.headers['x-request-id'];
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(missing.body).toEqual(expect.objectContaining({ success: false, requestId: id }));
+  });
+});
+
+describe('Audit log', () => {
+  const auditFile = path.join(os.tmpdir(), `disposable-audit-test-${process.pid}.jsonl`);
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp({ AUDIT_LOG_FILE: auditFile });
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+    fs.rmSync(auditFile, { force: true });
+  });
+
+  it('records session actions with the client and end reason', async () => {
+    const started = await startSession(harness).set('User-Agent', 'audit-test').expect(201);
+    const { containerId } = started.body.data;
+    await request(harness.app).post('/api/browser/extend-session').send({ containerId, extendByMs: 60000 }).expect(200);
+    await request(harness.app).post('/api/browser/stop-session').send({ containerId }).expect(200);
+
+    const crashed = await startSession(harness).expect(201);
+    await harness.sessionManager.stopSession(crashed.body.data.containerId, 'container-crashed');
+
+    const listed = await request(harness.app).get('/api/admin/audit').query({ containerId }).expect(200);
+    const events = listed.body.data.events;
+    expect(events.map((event: { action: string }) => event.action)).toEqual(['start', 'extend', 'stop']);
+    expect(events[0]).toEqual(expect.objectContaining({
+      actor: 'anonymous',
+      userAgent: 'audit-test',
+      image: expect.any(String),
+      profile: 'default',
+      requestId: started.headers['x-request-id'],
+    }));
+    expect(events[0].ip).toBeDefined();
+    expect(events[2].reason).toBe('user-stopped');
+
+    const cleanups = await request(harness.app).get('/api/admin/audit').query({ action: 'cleanup' }).expect(200);
+    expect(cleanups.body.data.events).toEqual([expect.objectContaining({
+      containerId: crashed.body.data.containerId,
+      actor: 'system',
+      reason: 'container-crashed',
+    })]);
+
+    const future = new Date(Date.now() + 60000).toISOString();
+    const none = await request(harness.app).get('/api/admin/audit').query({ from: future }).expect(200);
+    expect(none.body.data.events).toEqual([]);
+  });
+
+  it('exports events as CSV and NDJSON', async () => {
+    const started = await startSession(harness).expect(201);
+    await request(harness.app).post('/api/browser/stop-session').send({ containerId: started.body.data.containerId });
+
+    const csv = await request(harness.app).get('/api/admin/audit').query({ format: 'csv' }).expect(200);
+    expect(csv.headers['content-type']).toContain('text/csv');
+    expect(csv.headers['content-disposition']).toContain('session-audit.csv');
+    const rows = csv.text.trim().split('\r\n');
+    expect(rows[0]).toMatch(/^id,timestamp,action,containerId,/);
+    expect(rows).toHaveLength(3);
+
+    const ndjson = await request(harness.app).get('/api/admin/audit').query({ format: 'ndjson', limit: 1 }).expect(200);
+    const lines = ndjson.text.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([expect.objectContaining({ action: 'stop', containerId: started.body.data.containerId })]);
+  });
+
+  it('rejects malformed filters', async () => {
+    await request(harness.app).get('/api/admin/audit').query({ action: 'reboot' }).expect(400);
+    await request(harness.app).get('/api/admin/audit').query({ from: 'yesterday' }).expect(400);
+  });
+});
+
+describe('Fleet administration', () => {
+  let harness: TestApp;
+
+  beforeEach(() => {
+    harness = loadApp({ MAX_SESSIONS: '5' });
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('lists every session with its node and latest stats', async () => {
+    const started = await startSession(harness).expect(201);
+
+    const listed = await request(harness.app).get('/api/admin/sessions').expect(200);
+    expect(listed.body.data.count).toBe(1);
+    expect(listed.body.data.sessions[0]).toEqual(expect.objectContaining({
+      containerId: started.body.data.containerId,
+      node: expect.any(String),
+      stats: expect.objectContaining({ cpuPercent: expect.any(Number) }),
+    }));
+  });
+
+  it('force-stops one or all sessions', async () => {
+    const first = await startSession(harness).expect(201);
+    await startSession(harness).expect(201);
+    await startSession(harness).expect(201);
+
+    const stopped = await request(harness.app)
+      .post(`/api/admin/sessions/${first.body.data.containerId}/stop`)
+      .expect(200);
+    expect(stopped.body.data.stopped).toBe(true);
+    await request(harness.app).post(`/api/admin/sessions/${first.body.data.containerId}/stop`).expect(404);
+
+    const all = await request(harness.app).post('/api/admin/sessions/stop-all').expect(200);
+    expect(all.body.data).toEqual({ stopped: 2, failed: 0 });
+    expect(harness.sessionStore.getAllSessions()).toEqual([]);
+  });
+
+  it('moves a session\'s expiry either way', async () => {
+    const started = await startSession(harness).expect(201);
+    const { containerId } = started.body.data;
+    const expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    await request(harness.app)
+      .put(`/api/admin/sessions/${containerId}/expiry`)
+      .send({ expiresAt: expiresAt.toISOString() })
+      .expect(200);
+    expect(harness.sessionStore.getSession(containerId)?.expiresAt).toBe(expiresAt.getTime());
+
+    await request(harness.app)
+      .put(`/api/admin/sessions/${containerId}/expiry`)
+      .send({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .expect(400);
+    await request(harness.app)
+      .put('/api/admin/sessions/unknown/expiry')
+      .send({ expiresAt: expiresAt.toISOString() })
+      .expect(404);
+  });
+
+  it('drains and resumes admission', async () => {
+    const running = await startSession(harness).expect(201);
+    const events = watchEvents(harness, running.body.data.containerId);
+
+    const drained = await request(harness.app).post('/api/admin/admission/drain').expect(200);
+    expect(drained.body.data).toEqual(expect.objectContaining({ admitting: false, activeSessions: 1 }));
+    const refused = await startSession(harness).expect(503);
+    expect(refused.headers['retry-after']).toBe('120');
+    expect(refused.body.data.retryAfterSeconds).toBe(120);
+    expect(harness.sessionManager.isSessionActive(running.body.data.containerId)).toBe(true);
+    expect(events).toEqual([expect.objectContaining({ type: 'maintenance' })]);
+    expect((await request(harness.app).get('/health').expect(200)).body.draining).toBe(true);
+
+    await request(harness.app).post('/api/admin/admission/resume').expect(200);
+    await startSession(harness).expect(201);
+  });
+
+  it('reports Docker and Redis health and runs the cleanup', async () => {
+    const health = await request(harness.app).get('/api/admin/health').expect(200);
+    expect(health.body.data).toEqual(expect.objectContaining({
+      healthy: true,
+      docker: expect.objectContaining({ healthy: true }),
+      redis: expect.objectContaining({ healthy: true, enabled: false }),
+      admission: expect.objectContaining({ admitting: true }),
+    }));
+
+    const cleanup = await request(harness.app).post('/api/admin/cleanup').expect(200);
+    expect(cleanup.body.data.orphanedContainers).toBe(0);
+  });
+});
+
+
+describe('Maintenance mode on shutdown', () => {
+  let harness: TestApp;
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('gives sessions until the deadline, then stops them', async () => {
+    harness = loadApp({ DRAIN_DEADLINE_MS: '1000' });
+    const started = await startSession(harness).expect(201);
+    const events = watchEvents(harness, started.body.data.containerId);
+
+    const shutdownAt = Date.now();
+    await harness.sessionManager.shutdown();
+
+    expect(Date.now() - shutdownAt).toBeGreaterThanOrEqual(900);
+    expect(events.map(event => event.type)).toEqual(['maintenance', 'stopped']);
+    expect(events[0]?.deadline).toBeGreaterThanOrEqual(shutdownAt + 1000);
+    expect(events[1]?.reason).toBe('shutdown');
+    expect(await harness.runtime.getContainerInfo(started.body.data.containerId)).toBeNull();
+  });
+
+  it('finishes as soon as the last session ends and refuses new ones meanwhile', async () => {
+    harness = loadApp({ DRAIN_DEADLINE_MS: '20000' });
+    const started = await startSession(harness).expect(201);
+
+    const shutdownAt = Date.now();
+    const shutdown = harness.sessionManager.shutdown();
+    await startSession(harness).expect(503);
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .send({ containerId: started.body.data.containerId })
+      .expect(200);
+    await shutdown;
+
+    expect(Date.now() - shutdownAt).toBeLessThan(5000);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,195 @@
+import request from 'supertest';
+import { captureLogs, connectRedis, flushRedis, loadApp, nextEvent, TestApp, waitFor } from '../harness';
+
+const REDIS_ENV = { SESSION_PERSISTENCE_ENABLED: 'true' };
+
+describe('Session persistence in Redis', () => {
+  const running: TestApp[] = [];
+  const start = (env: Record<string, string> = {}): TestApp => {
+    const harness = loadApp({ ...REDIS_ENV, ...env });
+    running.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    for (const harness of running.splice(0)) {
+      await harness.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('restores sessions after a restart', async () => {
+    const first = start();
+    await first.sessionStore.whenLoaded();
+    const started = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 120000 })
+      .expect(201);
+    const { containerId } = started.body.data;
+    await first.crash();
+
+    const second = start();
+    await second.sessionStore.whenLoaded();
+
+    const restored = second.sessionStore.getSession(containerId);
+    expect(restored).toMatchObject({ containerId, hostPort: started.body.data.hostPort });
+    const remaining = await request(second.app)
+      .get('/api/browser/remaining-time')
+      .query({ containerId })
+      .expect(200);
+    expect(remaining.body.data.remainingTimeMs).toBeGreaterThan(0);
+    expect(remaining.body.data.remainingTimeMs).toBeLessThanOrEqual(120000);
+  });
+
+  it('leaves sessions running for the next process on shutdown', async () => {
+    const first = start();
+    await first.sessionStore.whenLoaded();
+    const started = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 120000 })
+      .expect(201);
+    const { containerId } = started.body.data;
+    await first.sessionManager.shutdown();
+
+    expect(await first.runtime.getContainerInfo(containerId)).not.toBeNull();
+    const second = start();
+    await second.sessionStore.whenLoaded();
+    expect(second.sessionStore.getSession(containerId)).toMatchObject({ containerId });
+  });
+
+  it('does not restore stopped sessions', async () => {
+    const first = start();
+    await first.sessionStore.whenLoaded();
+    const started = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 120000 })
+      .expect(201);
+    const { containerId } = started.body.data;
+    await request(first.app).post('/api/browser/stop-session').send({ containerId }).expect(200);
+    await first.crash();
+
+    const second = start();
+    await second.sessionStore.whenLoaded();
+
+    expect(second.sessionStore.getSession(containerId)).toBeUndefined();
+  });
+
+  it('keeps rate limit counters across a restart', async () => {
+    const first = start({ RATE_LIMIT_MAX_REQUESTS: '2' });
+    await request(first.app).get('/api/browser/profiles').expect(200);
+    await request(first.app).get('/api/browser/profiles').expect(200);
+    await first.crash();
+
+    const second = start({ RATE_LIMIT_MAX_REQUESTS: '2' });
+    await request(second.app).get('/api/browser/profiles').expect(429);
+  });
+});
+
+describe('Redis store mode', () => {
+  const running: TestApp[] = [];
+  const start = (instanceId: string, env: Record<string, string> = {}): TestApp => {
+    const harness = loadApp({
+      ...REDIS_ENV,
+      SESSION_STORE_MODE: 'redis',
+      SESSION_EXPIRY_POLL_MS: '50',
+      INSTANCE_ID: instanceId,
+      ...env,
+    });
+    running.push(harness);
+    return harness;
+  };
+  const startSession = (harness: TestApp) =>
+    request(harness.app).post('/api/browser/start-session').send({ durationMs: 120000 });
+
+  afterEach(async () => {
+    for (const harness of running.splice(0)) {
+      await harness.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('replicates sessions, extensions and stops between instances', async () => {
+    const a = start('a');
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+
+    const started = await startSession(a).expect(201);
+    const { containerId } = started.body.data;
+    await waitFor(() => b.sessionStore.getSession(containerId) !== undefined);
+    expect(b.sessionStore.getSession(containerId)).toMatchObject({ containerId, node: 'fake' });
+
+    const extended = nextEvent(a.sessionStore, 'extended');
+    await request(b.app).post('/api/browser/extend-session').send({ containerId, extendByMs: 60000 }).expect(200);
+    await extended;
+    expect(a.sessionStore.getSession(containerId)?.expiresAt).toBe(b.sessionStore.getSession(containerId)?.expiresAt);
+
+    const removed = nextEvent(b.sessionStore, 'removed');
+    await request(a.app).post('/api/browser/stop-session').send({ containerId }).expect(200);
+    const [, reason] = await removed;
+    expect(reason).toBe('user-stopped');
+    expect(b.sessionStore.getSession(containerId)).toBeUndefined();
+  });
+
+  it('gives the same session count and remaining time on every instance', async () => {
+    const a = start('a');
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+
+    const started = await startSession(a).expect(201);
+    const { containerId } = started.body.data;
+    await request(a.app).post('/api/browser/extend-session').send({ containerId, extendByMs: 60000 }).expect(200);
+
+    // Straight from Redis, without waiting for b to replicate the changes
+    expect(await b.sessionStore.getActiveSessionsCount()).toBe(1);
+    const remaining = await request(b.app).get('/api/browser/remaining-time').query({ containerId }).expect(200);
+    expect(remaining.body.data.remainingTimeMs).toBeGreaterThan(60000);
+    expect(Math.abs(remaining.body.data.remainingTimeMs - await a.sessionStore.getRemainingTime(containerId)))
+      .toBeLessThan(1000);
+  });
+
+  it('skips malformed change messages', async () => {
+    const a = start('a');
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+    const entries = captureLogs();
+
+    const redis = connectRedis();
+    await redis.publish('session-changes', '{not json');
+    await redis.publish('session-changes', 'null');
+    redis.disconnect();
+
+    const started = await startSession(a).expect(201);
+    await waitFor(() => b.sessionStore.getSession(started.body.data.containerId) !== undefined);
+    expect(entries.filter(entry => entry['message'] === 'Ignoring malformed session change')).toHaveLength(2);
+  });
+
+  it('lets only one instance reap an expired session', async () => {
+    const a = start('a');
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+    const reaped: string[] = [];
+    a.sessionStore.on('expired', () => reaped.push('a'));
+    b.sessionStore.on('expired', () => reaped.push('b'));
+
+    const started = await startSession(a).expect(201);
+    const { containerId } = started.body.data;
+    await waitFor(() => b.sessionStore.getSession(containerId) !== undefined);
+    a.sessionStore.updateSessionExpiry(containerId, Date.now() + 100);
+
+    await waitFor(() => !a.sessionStore.getSession(containerId) && !b.sessionStore.getSession(containerId));
+    // Give the other instance a few more polls to pick it up twice
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(reaped).toHaveLength(1);
+  });
+
+  it('shares MAX_SESSIONS between instances through the start lease', async () => {
+    const a = start('a', { MAX_SESSIONS: '1' });
+    const b = start('b', { MAX_SESSIONS: '1' });
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+
+    const statuses = await Promise.all([startSession(a), startSession(b)]).then(responses =>
+      responses.map(response => response.status).sort()
+    );
+    expect(statuses).toEqual([201, 429]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,180 @@
+import request from 'supertest';
+import { flushRedis, loadApp, TestApp, waitFor } from '../harness';
+
+const QUEUE_ENV = { MAX_SESSIONS: '1' };
+
+describe('Admission queue', () => {
+  let harness: TestApp;
+
+  const startSession = (app = harness.app, queue = true) =>
+    request(app).post('/api/browser/start-session').send({ durationMs: 60000, queue });
+  const pollTicket = (id: string, app = harness.app) => request(app).get(`/api/browser/queue/${id}`);
+
+  beforeEach(() => {
+    harness = loadApp(QUEUE_ENV);
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('queues requests for a full pool with their position and wait estimate', async () => {
+    await startSession().expect(201);
+
+    const first = await startSession().expect(202);
+    expect(first.body.data).toMatchObject({ state: 'waiting', userId: 'anonymous', position: 1 });
+    expect(first.body.data.estimatedWaitMs).toBeGreaterThan(55000);
+    expect(first.body.data.estimatedWaitMs).toBeLessThanOrEqual(60000);
+    expect(first.body.data.statusUrl).toBe(`/api/browser/queue/${first.body.data.id}`);
+
+    // A second round waits for a further default-length session
+    const second = await startSession().expect(202);
+    expect(second.body.data.position).toBe(2);
+    expect(second.body.data.estimatedWaitMs).toBeGreaterThan(first.body.data.estimatedWaitMs);
+
+    const polled = await pollTicket(first.body.data.id).expect(200);
+    expect(polled.body.data).toMatchObject({ id: first.body.data.id, state: 'waiting', position: 1 });
+
+    // Waiters go first, so requests that do not queue are refused
+    await startSession(harness.app, false).expect(429);
+    await pollTicket('unknown-ticket').expect(404);
+  });
+
+  it('admits the head of the queue once a slot frees up', async () => {
+    const running = await startSession().expect(201);
+    const queued = await startSession().expect(202);
+
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .send({ containerId: running.body.data.containerId })
+      .expect(200);
+
+    let admitted: request.Response | undefined;
+    await waitFor(async () => {
+      admitted = await pollTicket(queued.body.data.id).expect(200);
+      return admitted.body.data.state === 'admitted' && admitted.body.data.jobId !== undefined;
+    });
+    expect(admitted!.body.data.statusUrl).toBe(`/api/browser/sessions/${admitted!.body.data.jobId}/status`);
+    expect(admitted!.body.data.position).toBeUndefined();
+
+    await waitFor(async () => {
+      const job = await request(harness.app).get(admitted!.body.data.statusUrl).expect(200);
+      return job.body.data.state === 'ready';
+    });
+    expect(await harness.sessionStore.getActiveSessionsCount()).toBe(1);
+  });
+
+  it('cancels waiting tickets and moves the rest up', async () => {
+    await startSession().expect(201);
+    const first = await startSession().expect(202);
+    const second = await startSession().expect(202);
+
+    await request(harness.app).delete(`/api/browser/queue/${first.body.data.id}`).expect(200);
+    const cancelled = await pollTicket(first.body.data.id).expect(200);
+    expect(cancelled.body.data.state).toBe('cancelled');
+
+    const again = await request(harness.app).delete(`/api/browser/queue/${first.body.data.id}`).expect(409);
+    expect(again.body.error).toBe('Queue ticket is already cancelled');
+
+    const moved = await pollTicket(second.body.data.id).expect(200);
+    expect(moved.body.data.position).toBe(1);
+  });
+
+  it('drops tickets that are no longer polled', async () => {
+    await harness.shutdown();
+    harness = loadApp({ ...QUEUE_ENV, ADMISSION_QUEUE_TICKET_TIMEOUT_MS: '1000' });
+
+    await startSession().expect(201);
+    const queued = await startSession().expect(202);
+
+    await waitFor(() => !harness.admissionQueue.hasWaiters());
+    const expired = await pollTicket(queued.body.data.id).expect(200);
+    expect(expired.body.data.state).toBe('expired');
+  });
+});
+
+describe('Admission queue with Redis persistence', () => {
+  const running: TestApp[] = [];
+  const start = (instanceId: string): TestApp => {
+    const harness = loadApp({
+      ...QUEUE_ENV,
+      SESSION_PERSISTENCE_ENABLED: 'true',
+      ADMISSION_QUEUE_TICKET_TIMEOUT_MS: '1000',
+      INSTANCE_ID: instanceId,
+    });
+    running.push(harness);
+    return harness;
+  };
+
+  afterEach(async () => {
+    for (const harness of running.splice(0)) {
+      await harness.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('answers polls on every replica and keeps the ticket alive', async () => {
+    const a = start('a');
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+
+    await request(a.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(201);
+    const queued = await request(a.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 60000, queue: true })
+      .expect(202);
+    const ticketId = queued.body.data.id;
+
+    // Only replica b is polled, for well past the ticket timeout
+    const pollUntil = Date.now() + 2500;
+    while (Date.now() < pollUntil) {
+      const polled = await request(b.app).get(`/api/browser/queue/${ticketId}`).expect(200);
+      expect(polled.body.data).toMatchObject({ id: ticketId, state: 'waiting', position: 1 });
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    expect(a.admissionQueue.hasWaiters()).toBe(true);
+
+    const cancel = await request(b.app).delete(`/api/browser/queue/${ticketId}`).expect(409);
+    expect(cancel.body.error).toBe('Queue ticket can only be cancelled on the replica that issued it');
+    await request(a.app).delete(`/api/browser/queue/${ticketId}`).expect(200);
+
+    const cancelled = await request(b.app).get(`/api/browser/queue/${ticketId}`).expect(200);
+    expect(cancelled.body.data.state).toBe('cancelled');
+  });
+
+  it('keeps the queue of an instance across restarts', async () => {
+    const first = start('a');
+    await first.sessionStore.whenLoaded();
+    await request(first.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(201);
+    const queued = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 60000, queue: true })
+      .expect(202);
+    await first.crash();
+
+    // The restarted process finds the queue under the same instance ID. The
+    // running session's container died with the fake runtime, so the ticket
+    // gets its slot.
+    const second = start('a');
+    await waitFor(async () => {
+      const polled = await request(second.app).get(`/api/browser/queue/${queued.body.data.id}`).expect(200);
+      return polled.body.data.state === 'admitted';
+    });
+  });
+
+  it('keeps the queue in memory when INSTANCE_ID is not set', async () => {
+    const first = start('');
+    await first.sessionStore.whenLoaded();
+    await request(first.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(201);
+    const queued = await request(first.app)
+      .post('/api/browser/start-session')
+      .send({ durationMs: 60000, queue: true })
+      .expect(202);
+    await request(first.app).get(`/api/browser/queue/${queued.body.data.id}`).expect(200);
+    await first.crash();
+
+    const second = start('');
+    await second.sessionStore.whenLoaded();
+    await request(second.app).get(`/api/browser/queue/${queued.body.data.id}`).expect(404);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,186 @@
+import request from 'supertest';
+import { flushRedis, loadApp, TestApp } from '../harness';
+
+const QUOTA_ENV = {
+  AUTH_ENABLED: 'true',
+  MAX_SESSIONS: '10',
+  QUOTA_USER_MAX_CONCURRENT_SESSIONS: '2',
+  QUOTA_USER_MAX_SESSION_MINUTES_PER_DAY: '5',
+  QUOTA_USER_MAX_EXTENSIONS: '1',
+};
+
+describe('Session quotas', () => {
+  let harness: TestApp;
+  let alice: string;
+
+  const startSession = (token: string, durationMs = 60000) =>
+    request(harness.app)
+      .post('/api/browser/start-session')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ durationMs });
+  const stopSession = (token: string, containerId: string) =>
+    request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ containerId })
+      .expect(200);
+
+  beforeEach(() => {
+    harness = loadApp(QUOTA_ENV);
+    alice = harness.authService.issueToken({ userId: 'alice', roles: [] });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await harness.shutdown();
+  });
+
+  it('limits concurrent sessions per user and frees the slot on stop', async () => {
+    const first = await startSession(alice).expect(201);
+    await startSession(alice).expect(201);
+
+    const refused = await startSession(alice).expect(429);
+    expect(refused.body.error).toBe('User quota exceeded: concurrent-sessions (limit 2)');
+    expect(refused.body.data).toEqual({ quota: 'concurrent-sessions', scope: 'user', limit: 2, current: 2 });
+    await startSession(harness.authService.issueToken({ userId: 'bob', roles: [] })).expect(201);
+
+    await stopSession(alice, first.body.data.containerId);
+    await startSession(alice).expect(201);
+  });
+
+  it('limits the session minutes booked per day', async () => {
+    await startSession(alice, 180000).expect(201);
+
+    const refused = await startSession(alice, 180000).expect(429);
+    expect(refused.body.data).toEqual({ quota: 'session-minutes', scope: 'user', limit: 5, current: 3 });
+  });
+
+  it('gives back the unused minutes of a session stopped early', async () => {
+    const started = await startSession(alice, 180000).expect(201);
+    await stopSession(alice, started.body.data.containerId);
+
+    // Less than a minute was used, but part minutes stay charged
+    await startSession(alice, 180000).expect(201);
+    const refused = await startSession(alice, 180000).expect(429);
+    expect(refused.body.data).toEqual({ quota: 'session-minutes', scope: 'user', limit: 5, current: 4 });
+  });
+
+  it('moves the reservation with an expiry set by an admin', async () => {
+    const admin = harness.authService.issueToken({ userId: 'ops', roles: ['admin'] });
+    const setExpiry = (containerId: string, expiresAt: number) =>
+      request(harness.app)
+        .put(`/api/admin/sessions/${containerId}/expiry`)
+        .set('Authorization', `Bearer ${admin}`)
+        .send({ expiresAt: new Date(expiresAt).toISOString() })
+        .expect(200);
+
+    const moved = await startSession(alice).expect(201);
+    await setExpiry(moved.body.data.containerId, Date.now() + 150000);
+    await startSession(alice, 120000).expect(201);
+
+    // Past the original expiry the slot is still held, and the two extra minutes were charged
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 90000);
+    const refused = await startSession(alice).expect(429);
+    expect(refused.body.data).toEqual({ quota: 'concurrent-sessions', scope: 'user', limit: 2, current: 2 });
+  });
+
+  it('gives back minutes when an admin brings the expiry forward, without using up extensions', async () => {
+    const admin = harness.authService.issueToken({ userId: 'ops', roles: ['admin'] });
+    const started = await startSession(alice, 180000).expect(201);
+    const { containerId } = started.body.data;
+
+    await request(harness.app)
+      .put(`/api/admin/sessions/${containerId}/expiry`)
+      .set('Authorization', `Bearer ${admin}`)
+      .send({ expiresAt: new Date(Date.now() + 61000).toISOString() })
+      .expect(200);
+    await request(harness.app)
+      .post('/api/browser/extend-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId, extendByMs: 60000 })
+      .expect(200);
+
+    await startSession(alice, 120000).expect(201);
+  });
+
+  it('refuses extensions beyond the limit with 403', async () => {
+    const started = await startSession(alice).expect(201);
+    const extend = () => request(harness.app)
+      .post('/api/browser/extend-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId: started.body.data.containerId, extendByMs: 60000 });
+
+    await extend().expect(200);
+    const refused = await extend().expect(403);
+    expect(refused.body.data).toEqual(expect.objectContaining({ quota: 'extensions', limit: 1, current: 1 }));
+  });
+
+  it('gives back an extension that could not be applied', async () => {
+    const started = await startSession(alice).expect(201);
+    const extend = () => request(harness.app)
+      .post('/api/browser/extend-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId: started.body.data.containerId, extendByMs: 60000 });
+
+    jest.spyOn(harness.sessionStore, 'updateSessionExpiry').mockImplementationOnce(() => {
+      throw new Error('Session store unavailable');
+    });
+    await extend().expect(500);
+    await extend().expect(200);
+  });
+
+  it('gives back the reservation of a failed start', async () => {
+    jest.spyOn(harness.runtime, 'startContainer').mockRejectedValueOnce(new Error('Docker daemon unavailable'));
+    await startSession(alice, 180000).expect(503);
+
+    // Neither the concurrent slot nor the minutes stay booked
+    await startSession(alice, 120000).expect(201);
+    await startSession(alice, 180000).expect(201);
+  });
+
+  it('does not apply per-user limits to the shared anonymous user without auth', async () => {
+    await harness.shutdown();
+    harness = loadApp({ MAX_SESSIONS: '5' });
+
+    for (let i = 0; i < 5; i++) {
+      await request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(201);
+    }
+    const refused = await request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000 }).expect(429);
+    expect(refused.body.error).toMatch(/Maximum number of sessions \(5\) reached/);
+  });
+});
+
+describe('Session quotas in Redis', () => {
+  let harness: TestApp;
+
+  beforeEach(async () => {
+    harness = loadApp({ ...QUOTA_ENV, SESSION_PERSISTENCE_ENABLED: 'true' });
+    await harness.sessionStore.whenLoaded();
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+    await flushRedis();
+  });
+
+  it('gives back the unused minutes of a session stopped early', async () => {
+    const alice = harness.authService.issueToken({ userId: 'alice', roles: [] });
+    const startSession = () =>
+      request(harness.app)
+        .post('/api/browser/start-session')
+        .set('Authorization', `Bearer ${alice}`)
+        .send({ durationMs: 180000 });
+
+    const started = await startSession().expect(201);
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId: started.body.data.containerId })
+      .expect(200);
+
+    await startSession().expect(201);
+    const refused = await startSession().expect(429);
+    expect(refused.body.data).toEqual({ quota: 'session-minutes', scope: 'user', limit: 5, current: 4 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import request from 'supertest';
+import { loadApp, TestApp, waitFor } from '../harness';
+
+// Fake containers answer 200, which this profile does not accept as ready
+const READINESS_ENV = {
+  READINESS_INTERVAL_MS: '50',
+  SESSION_PROFILES: JSON.stringify([{
+    name: 'stuck',
+    healthCheck: { path: '/', timeoutMs: 300, intervalMs: 50, expectedStatus: [204] },
+  }]),
+};
+
+describe('Readiness probe', () => {
+  let harness: TestApp;
+
+  const startSession = (body: Record<string, unknown>) =>
+    request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000, ...body });
+
+  beforeEach(() => {
+    harness = loadApp(READINESS_ENV);
+  });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('removes a container that does not become ready in time', async () => {
+    const refused = await startSession({ profile: 'stuck' }).expect(503);
+    expect(refused.body.error).toMatch(/Container did not become ready within 300ms \(status 200\)/);
+
+    expect(await harness.runtime.getActiveContainersCount()).toBe(0);
+    expect(await harness.sessionStore.getActiveSessionsCount()).toBe(0);
+  });
+
+  it('reports the session as starting until the probe passes', async () => {
+    const started = await startSession({ waitForReady: false }).expect(201);
+    const { containerId } = started.body.data;
+    expect(started.body.data.status).toBe('starting');
+
+    await waitFor(() => harness.sessionManager.getSessionStatus(containerId) === 'ready');
+    await request(harness.app).get(`/api/browser/proxy/${containerId}/`).expect(200);
+  });
+
+  it('ends a session that was returned as starting when the probe times out', async () => {
+    const started = await startSession({ profile: 'stuck', waitForReady: false }).expect(201);
+    const { containerId } = started.body.data;
+    expect(started.body.data.status).toBe('starting');
+
+    const proxied = await request(harness.app).get(`/api/browser/proxy/${containerId}/`).expect(503);
+    expect(proxied.body.error).toBe('Session is still starting');
+
+    await waitFor(() => harness.sessionStore.getSession(containerId) === undefined);
+    expect(await harness.runtime.getActiveContainersCount()).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,121 @@
+import request from 'supertest';
+import { flushRedis, loadApp, TestApp, waitFor } from '../harness';
+
+const RECONCILE_ENV = {
+  AUTH_ENABLED: 'true',
+  RECONCILE_INTERVAL_MS: '0',
+  RECONCILE_GRACE_MS: '0',
+};
+
+describe('Reconciler', () => {
+  const running: TestApp[] = [];
+  let harness: TestApp;
+  let alice: string;
+
+  const load = (env: Record<string, string> = {}) => {
+    harness = loadApp({ ...RECONCILE_ENV, ...env });
+    running.push(harness);
+    alice = harness.authService.issueToken({ userId: 'alice', tenantId: 'acme', roles: [] });
+  };
+  const startSession = () =>
+    request(harness.app)
+      .post('/api/browser/start-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ durationMs: 120000 })
+      .expect(201);
+  // The record is gone, as after a restart without persistence, but the container keeps running
+  const loseRecord = async (containerId: string) => {
+    await harness.sessionStore.removeSession(containerId);
+    expect(harness.sessionStore.getSession(containerId)).toBeUndefined();
+  };
+  const isRunning = async (containerId: string) => (await harness.runtime.getContainerInfo(containerId)) !== null;
+
+  afterEach(async () => {
+    for (const app of running.splice(0)) {
+      await app.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('drops restored sessions whose container is gone at startup', async () => {
+    load({ SESSION_PERSISTENCE_ENABLED: 'true' });
+    await harness.sessionStore.whenLoaded();
+    const started = await startSession();
+    const { containerId } = started.body.data;
+    await harness.crash();
+
+    // Fake containers do not survive the restart
+    load({ SESSION_PERSISTENCE_ENABLED: 'true' });
+    await harness.sessionStore.whenLoaded();
+    expect(harness.sessionStore.getSession(containerId)).toBeDefined();
+
+    harness.reconciler.start();
+    await waitFor(() => harness.sessionStore.getSession(containerId) === undefined);
+    expect(await harness.sessionStore.getActiveSessionsCount()).toBe(0);
+    harness.reconciler.shutdown();
+  });
+
+  it('adopts untracked containers from their labels', async () => {
+    load();
+    const started = await startSession();
+    const { containerId, expiresAt } = started.body.data;
+    await loseRecord(containerId);
+
+    const report = await harness.reconciler.reconcile();
+    expect(report).toMatchObject({ checkedContainers: 1, droppedSessions: 0, adoptedContainers: 1, killedContainers: 0 });
+    expect(harness.sessionStore.getSession(containerId)).toMatchObject({
+      containerId,
+      userId: 'alice',
+      tenantId: 'acme',
+      profile: 'default',
+      status: 'ready',
+    });
+    // Labels only keep the expiry to the second
+    expect(Math.abs(harness.sessionStore.getSession(containerId)!.expiresAt - expiresAt)).toBeLessThan(1000);
+    await request(harness.app)
+      .get('/api/browser/remaining-time')
+      .set('Authorization', `Bearer ${alice}`)
+      .query({ containerId })
+      .expect(200);
+  });
+
+  it('adopts sessions started from the warm pool', async () => {
+    load({ WARM_POOL_SIZES: 'default:1', WARM_POOL_REFILL_INTERVAL_MS: '100' });
+    await waitFor(() => harness.sessionManager.getStats()['warmPool']['idle']['default'] === 1);
+    const started = await startSession();
+    const { containerId } = started.body.data;
+    await loseRecord(containerId);
+
+    const report = await harness.reconciler.reconcile();
+    expect(report?.adoptedContainers).toBe(1);
+    expect(harness.sessionStore.getSession(containerId)).toMatchObject({ userId: 'alice' });
+  });
+
+  it('kills untracked containers with the kill policy', async () => {
+    load({ RECONCILE_ORPHAN_POLICY: 'kill' });
+    const started = await startSession();
+    const { containerId } = started.body.data;
+    await loseRecord(containerId);
+
+    const report = await harness.reconciler.reconcile();
+    expect(report).toMatchObject({ adoptedContainers: 0, killedContainers: 1 });
+    expect(await isRunning(containerId)).toBe(false);
+    expect(harness.sessionStore.getSession(containerId)).toBeUndefined();
+  });
+
+  it('leaves untracked containers alone with the ignore policy, and young ones with any policy', async () => {
+    load({ RECONCILE_ORPHAN_POLICY: 'ignore' });
+    const ignored = await startSession();
+    await loseRecord(ignored.body.data.containerId);
+
+    expect(await harness.reconciler.reconcile()).toMatchObject({ adoptedContainers: 0, killedContainers: 0 });
+    expect(await isRunning(ignored.body.data.containerId)).toBe(true);
+
+    load({ RECONCILE_ORPHAN_POLICY: 'kill', RECONCILE_GRACE_MS: '60000' });
+    const young = await startSession();
+    await loseRecord(young.body.data.containerId);
+
+    expect(await harness.reconciler.reconcile()).toMatchObject({ adoptedContainers: 0, killedContainers: 0 });
+    expect(await isRunning(young.body.data.containerId)).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,126 @@
+import request from 'supertest';
+import { flushRedis, loadApp, TestApp, waitFor } from '../harness';
+import { SESSION_LABELS } from '../../utils/labels';
+
+const POOL_LABEL = 'disposable-suite.pool';
+const POOL_ENV = {
+  AUTH_ENABLED: 'true',
+  MAX_SESSIONS: '5',
+  WARM_POOL_SIZES: 'default:1',
+  WARM_POOL_REFILL_INTERVAL_MS: '100',
+};
+
+describe('Warm pool', () => {
+  let harness: TestApp;
+
+  // Containers show up in the runtime before their readiness probe passes
+  const idleContainers = async () => {
+    const idle = harness.sessionManager.getStats()['warmPool']['idle']['default'] || 0;
+    const unassigned = (await harness.runtime.listManagedContainers())
+      // Claimed containers keep their pool label; their session tells them apart
+      .filter(container => container.labels[POOL_LABEL] === 'unassigned' && !harness.sessionStore.getSession(container.id))
+      .map(container => container.id);
+    return unassigned.length === idle ? unassigned : [];
+  };
+  const startSession = (token: string) =>
+    request(harness.app)
+      .post('/api/browser/start-session')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ durationMs: 60000 });
+
+  afterEach(async () => {
+    await harness.shutdown();
+  });
+
+  it('hands out idle containers with a claim labelled like fresh session containers', async () => {
+    harness = loadApp(POOL_ENV);
+    const alice = harness.authService.issueToken({ userId: 'alice', tenantId: 'acme', roles: [] });
+    await waitFor(async () => (await idleContainers()).length === 1);
+    const [pooledId] = await idleContainers();
+
+    const started = await startSession(alice).expect(201);
+    expect(started.body.data.containerId).toBe(pooledId);
+
+    const claim = await harness.sessionStore.getPoolClaim(pooledId!);
+    expect(claim).toMatchObject({
+      [POOL_LABEL]: 'claimed',
+      [SESSION_LABELS.user]: 'alice',
+      [SESSION_LABELS.tenant]: 'acme',
+    });
+    const expiresAt = Date.parse(claim?.[SESSION_LABELS.expiresAt] || '');
+    expect(Math.abs(expiresAt - started.body.data.expiresAt)).toBeLessThan(1000);
+
+    await request(harness.app)
+      .post('/api/browser/stop-session')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ containerId: pooledId })
+      .expect(200);
+    expect(await harness.sessionStore.getPoolClaim(pooledId!)).toBeNull();
+  });
+
+  it('refills the pool after a claim', async () => {
+    harness = loadApp(POOL_ENV);
+    const alice = harness.authService.issueToken({ userId: 'alice', roles: [] });
+    await waitFor(async () => (await idleContainers()).length === 1);
+    const [pooledId] = await idleContainers();
+
+    await startSession(alice).expect(201);
+    await waitFor(async () => (await idleContainers()).length === 1);
+    expect(await idleContainers()).not.toContain(pooledId);
+  });
+
+  it('recycles containers that stayed idle too long', async () => {
+    harness = loadApp({ ...POOL_ENV, WARM_POOL_MAX_IDLE_MS: '300' });
+    await waitFor(async () => (await idleContainers()).length === 1);
+    const [pooledId] = await idleContainers();
+
+    await waitFor(async () => {
+      const idle = await idleContainers();
+      return idle.length === 1 && idle[0] !== pooledId;
+    });
+    const remaining = (await harness.runtime.listManagedContainers()).map(container => container.id);
+    expect(remaining).not.toContain(pooledId);
+  });
+});
+
+describe('Warm pool in redis store mode', () => {
+  const running: TestApp[] = [];
+  const start = (instanceId: string, env: Record<string, string> = {}): TestApp => {
+    const harness = loadApp({
+      SESSION_PERSISTENCE_ENABLED: 'true',
+      SESSION_STORE_MODE: 'redis',
+      MAX_SESSIONS: '3',
+      WARM_POOL_REFILL_INTERVAL_MS: '100',
+      INSTANCE_ID: instanceId,
+      ...env,
+    });
+    running.push(harness);
+    return harness;
+  };
+  const startSession = (harness: TestApp) =>
+    request(harness.app).post('/api/browser/start-session').send({ durationMs: 60000 });
+
+  afterEach(async () => {
+    for (const harness of running.splice(0)) {
+      await harness.shutdown();
+    }
+    await flushRedis();
+  });
+
+  it('counts the idle containers of other instances against MAX_SESSIONS', async () => {
+    const a = start('a', { WARM_POOL_SIZES: 'default:2' });
+    const b = start('b');
+    await Promise.all([a.sessionStore.whenLoaded(), b.sessionStore.whenLoaded()]);
+    await waitFor(async () => (await a.runtime.getActiveContainersCount()) === 2);
+
+    // Two of the three slots are held by a's pool
+    await startSession(b).expect(201);
+    const refused = await startSession(b).expect(429);
+    expect(refused.body.error).toMatch(/Maximum number of sessions \(3\) reached/);
+
+    // a can still hand out its own idle containers
+    await startSession(a).expect(201);
+    await startSession(a).expect(201);
+    await startSession(a).expect(429);
+  });
+});
\ No newline at end of file
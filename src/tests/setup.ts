@@ -1,3 +1,5 @@
+import os from 'os';
+import path from 'path';
 import dotenv from 'dotenv';
 
 // Load test environment variables
@@ -6,6 +8,15 @@ dotenv.config({ path: '.env.test' });
 // Set test environment
 process.env['NODE_ENV'] = 'test';
 
+// Sessions run on the in-process fake runtime, so no Docker daemon is needed.
+// Suites that exercise authentication turn it back on.
+process.env['CONTAINER_RUNTIME'] = process.env['CONTAINER_RUNTIME'] || 'fake';
+process.env['AUTH_ENABLED'] = process.env['AUTH_ENABLED'] || 'false';
+process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-jwt-secret';
+process.env['INSTANCE_ID'] = process.env['INSTANCE_ID'] || 'test';
+process.env['LOG_LEVEL'] = process.env['LOG_LEVEL'] || 'error';
+process.env['AUDIT_LOG_FILE'] = process.env['AUDIT_LOG_FILE'] || path.join(os.tmpdir(), `disposable-audit-${process.pid}.jsonl`);
+
 // Mock console methods to reduce noise in tests
 global.console = {
   ...console,
@@ -0,0 +1,58 @@
+import type * as ConfigModule from '../../config';
+
+// Configuration is read at import time, so every load gets its own copy
+const loadConfig = (env: Record<string, string>): typeof ConfigModule.default => {
+  const previousEnv = process.env;
+  process.env = { ...previousEnv, ...env };
+  try {
+    let config: typeof ConfigModule.default | undefined;
+    jest.isolateModules(() => {
+      config = jest.requireActual<typeof ConfigModule>('../../config').default;
+    });
+    return config!;
+  } finally {
+    process.env = previousEnv;
+  }
+};
+
+describe('configuration', () => {
+  it('accepts the documented values', () => {
+    const config = loadConfig({
+      CONTAINER_RUNTIME: 'docker',
+      CONTAINER_NETWORK_MODE: 'bridge',
+      PLACEMENT_STRATEGY: 'bin-pack',
+      DRAIN_SIGNAL: 'SIGHUP',
+    });
+    expect(config.runtime).toBe('docker');
+    expect(config.docker.placementStrategy).toBe('bin-pack');
+    expect(config.docker.network.mode).toBe('bridge');
+    expect(config.drain.signal).toBe('SIGHUP');
+  });
+
+  it('refuses unknown values of the enumerated settings', () => {
+    expect(() => loadConfig({ CONTAINER_RUNTIME: 'podman' }))
+      .toThrow('CONTAINER_RUNTIME must be one of docker, fake, got "podman"');
+    expect(() => loadConfig({ CONTAINER_NETWORK_MODE: 'host' }))
+      .toThrow('CONTAINER_NETWORK_MODE must be one of per-session, bridge, got "host"');
+    expect(() => loadConfig({ PLACEMENT_STRATEGY: 'spread' }))
+      .toThrow('PLACEMENT_STRATEGY must be one of least-loaded, bin-pack, got "spread"');
+    expect(() => loadConfig({ DEFAULT_EGRESS_POLICY: 'deny-all' }))
+      .toThrow('DEFAULT_EGRESS_POLICY must be one of allow-all, deny-private, allowlist, none, got "deny-all"');
+    expect(() => loadConfig({ RECONCILE_ORPHAN_POLICY: 'delete' }))
+      .toThrow('RECONCILE_ORPHAN_POLICY must be one of adopt, kill, ignore, got "delete"');
+  });
+
+  it('refuses to start with auth enabled and no private JWT secret', () => {
+    const production = { NODE_ENV: 'production', AUTH_ENABLED: 'true' };
+    expect(() => loadConfig({ ...production, JWT_SECRET: '' })).toThrow(/^JWT_SECRET must be set/);
+    expect(() => loadConfig({ ...production, JWT_SECRET: 'your-super-secret-jwt-key-change-in-production' }))
+      .toThrow(/^JWT_SECRET must be set/);
+    expect(loadConfig({ ...production, JWT_SECRET: 'a-private-secret' }).security.jwtSecret).toBe('a-private-secret');
+    expect(loadConfig({ ...production, AUTH_ENABLED: 'false', JWT_SECRET: '' }).security.authEnabled).toBe(false);
+  });
+
+  it('refuses drain signals that are unknown or already taken', () => {
+    expect(() => loadConfig({ DRAIN_SIGNAL: 'USR2' })).toThrow(/^DRAIN_SIGNAL must be a signal other than/);
+    expect(() => loadConfig({ DRAIN_SIGNAL: 'SIGTERM' })).toThrow('got "SIGTERM"');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { isPrivateAddress, matchesDomain } from '../../utils/egress';
+
+describe('egress checks', () => {
+  it.each([
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '127.0.0.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:10.0.0.1',
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:1.1.1.1'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+
+  it('matches allowed domains and their subdomains only', () => {
+    const domains = ['example.com', '*.wikipedia.org'];
+
+    expect(matchesDomain('example.com', domains)).toBe(true);
+    expect(matchesDomain('www.EXAMPLE.com.', domains)).toBe(true);
+    expect(matchesDomain('en.wikipedia.org', domains)).toBe(true);
+    expect(matchesDomain('notexample.com', domains)).toBe(false);
+    expect(matchesDomain('example.com.evil.net', domains)).toBe(false);
+  });
+});
\ No newline at end of file
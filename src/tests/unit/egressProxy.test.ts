@@ -0,0 +1,48 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import egressProxy from '../../services/egressProxy';
+import sessionStore from '../../models/sessionStore';
+
+const get = (port: number): Promise<number> =>
+  new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path: '/', agent: false }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    }).on('error', reject);
+  });
+
+describe('egress proxy', () => {
+  let server: http.Server;
+
+  beforeEach(async () => {
+    server = http.createServer((_req, res) => res.end('ok'));
+    egressProxy.refuseSessionNetworks(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    egressProxy.removeSessionNetwork('disposable-session-test');
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterAll(async () => {
+    await sessionStore.shutdown();
+  });
+
+  it('refuses connections made to the API through a session network', async () => {
+    const { port } = server.address() as AddressInfo;
+    expect(await get(port)).toBe(200);
+
+    egressProxy.addSessionNetwork('disposable-session-test', '127.0.0.1');
+    await expect(get(port)).rejects.toThrow();
+
+    egressProxy.removeSessionNetwork('disposable-session-test');
+    expect(await get(port)).toBe(200);
+  });
+
+  it('ignores addresses this process does not have', async () => {
+    const { port } = server.address() as AddressInfo;
+    egressProxy.addSessionNetwork('disposable-session-test', '192.0.2.10');
+    expect(await get(port)).toBe(200);
+  });
+});
\ No newline at end of file
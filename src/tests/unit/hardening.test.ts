@@ -0,0 +1,57 @@
+import { buildSecurityOptions, validateHardening } from '../../utils/hardening';
+import { HardeningConfig } from '../../types';
+
+const hardening = (overrides: Partial<HardeningConfig> = {}): HardeningConfig => ({
+  capAdd: ['CHOWN', 'cap_setuid'],
+  noNewPrivileges: true,
+  seccompProfile: 'default',
+  readOnlyRootfs: true,
+  tmpfs: { '/tmp': 'rw,size=64m' },
+  pidsLimit: 256,
+  ulimits: [{ name: 'nofile', soft: 1024, hard: 2048 }],
+  userNamespace: false,
+  ...overrides,
+});
+
+describe('container hardening', () => {
+  it('drops all capabilities and applies the settings', () => {
+    expect(buildSecurityOptions(hardening())).toEqual({
+      CapDrop: ['ALL'],
+      CapAdd: ['CHOWN', 'SETUID'],
+      SecurityOpt: ['no-new-privileges:true'],
+      ReadonlyRootfs: true,
+      Tmpfs: { '/tmp': 'rw,size=64m' },
+      PidsLimit: 256,
+      Ulimits: [{ Name: 'nofile', Soft: 1024, Hard: 2048 }],
+    });
+  });
+
+  it('leaves the pids limit unset when it is 0', () => {
+    const options = buildSecurityOptions(hardening({ pidsLimit: 0, seccompProfile: 'unconfined' }));
+    expect(options).not.toHaveProperty('PidsLimit');
+    expect(options.SecurityOpt).toContain('seccomp=unconfined');
+  });
+
+  it('accepts valid settings', () => {
+    expect(validateHardening(hardening())).toEqual([]);
+  });
+
+  it('reports invalid settings', () => {
+    const problems = validateHardening(hardening({
+      capAdd: ['CHOWN', 'FLY'],
+      seccompProfile: '/nonexistent/seccomp.json',
+      tmpfs: { 'tmp': 'rw' },
+      pidsLimit: -1,
+      ulimits: [{ name: 'nofile', soft: 10, hard: 5 }, { name: 'bogus', soft: 1, hard: 1 }],
+    }));
+
+    expect(problems).toEqual([
+      'unknown capabilities: FLY',
+      expect.stringMatching(/^seccomp profile \/nonexistent\/seccomp.json is unusable/),
+      'tmpfs mount point tmp must be absolute',
+      'hardening.pidsLimit must be a non-negative integer',
+      'ulimit nofile needs integer soft and hard values with soft <= hard',
+      'unknown ulimit: bogus',
+    ]);
+  });
+});
\ No newline at end of file
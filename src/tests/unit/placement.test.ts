@@ -0,0 +1,177 @@
+import type { DockerService } from '../../services/dockerService';
+import type sessionStoreInstance from '../../models/sessionStore';
+import type { SessionProfile } from '../../types';
+
+// An in-memory Docker daemon per node host, enough for placement and stops
+interface FakeDaemon {
+  running: number;
+  reachable: boolean;
+  containers: Map<string, Record<string, any>>;
+}
+
+const daemons = new Map<string, FakeDaemon>();
+
+const unreachable = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+const notFound = () => Object.assign(new Error('no such container'), { statusCode: 404 });
+
+class FakeDocker {
+  private daemon: FakeDaemon;
+
+  constructor(options: { host: string }) {
+    this.daemon = daemons.get(options.host)!;
+  }
+
+  private async call<T>(result: () => T): Promise<T> {
+    if (!this.daemon.reachable) throw unreachable();
+    return result();
+  }
+
+  ping() {
+    return this.call(() => 'OK');
+  }
+
+  info() {
+    return this.call(() => ({ SecurityOptions: [] }));
+  }
+
+  listContainers() {
+    return this.call(() => Array.from({ length: this.daemon.running }, (_, index) => ({ Id: `running-${index}` })));
+  }
+
+  getImage() {
+    return { inspect: () => this.call(() => ({})) };
+  }
+
+  createContainer(options: { Labels: Record<string, string> }) {
+    return this.call(() => {
+      const id = `container-${this.daemon.containers.size + 1}`;
+      this.daemon.containers.set(id, options.Labels);
+      this.daemon.running++;
+      return this.getContainer(id);
+    });
+  }
+
+  getVolume() {
+    return { remove: () => this.call(() => Promise.reject(notFound())) };
+  }
+
+  getContainer(id: string) {
+    const lookup = () => this.call(() => {
+      const labels = this.daemon.containers.get(id);
+      if (!labels) throw notFound();
+      return labels;
+    });
+
+    return {
+      id,
+      start: () => lookup(),
+      stop: () => lookup(),
+      remove: async () => {
+        await lookup();
+        this.daemon.containers.delete(id);
+        this.daemon.running--;
+      },
+      inspect: async () => ({
+        State: { Status: 'running' },
+        Config: { Labels: await lookup() },
+        NetworkSettings: { Ports: { '3000/tcp': [{ HostPort: '32768' }] }, Networks: {} },
+        HostConfig: {},
+      }),
+    };
+  }
+}
+
+const NODES = [
+  { name: 'worker-1', host: 'worker-1.internal', capacity: 10 },
+  { name: 'worker-2', host: 'worker-2.internal', capacity: 4 },
+  { name: 'worker-3', host: 'worker-3.internal', capacity: 10 },
+];
+
+describe('Docker node placement', () => {
+  let service: DockerService;
+  let profile: SessionProfile;
+  // Loaded along with the metrics; its timers have to be stopped
+  let sessionStore: typeof sessionStoreInstance;
+
+  const daemon = (name: string): FakeDaemon => daemons.get(`${name}.internal`)!;
+  const setLoads = (running: number[]) => {
+    running.forEach((count, index) => {
+      daemon(NODES[index]!.name).running = count;
+    });
+  };
+
+  beforeEach(() => {
+    for (const node of NODES) {
+      daemons.set(node.host, { running: 0, reachable: true, containers: new Map() });
+    }
+
+    const previousEnv = process.env;
+    process.env = {
+      ...previousEnv,
+      CONTAINER_RUNTIME: 'docker',
+      CONTAINER_NETWORK_MODE: 'bridge',
+      PLACEMENT_STRATEGY: 'least-loaded',
+      DOCKER_NODES: JSON.stringify(NODES),
+    };
+    try {
+      jest.resetModules();
+      jest.doMock('dockerode', () => FakeDocker);
+      const { DockerService: Service } = jest.requireActual<typeof import('../../services/dockerService')>('../../services/dockerService');
+      const config = jest.requireActual<typeof import('../../config')>('../../config').default;
+      sessionStore = jest.requireActual<typeof import('../../models/sessionStore')>('../../models/sessionStore').default;
+      service = new Service();
+      profile = config.docker.profiles.find(candidate => candidate.name === 'default')!;
+    } finally {
+      process.env = previousEnv;
+    }
+  });
+
+  afterEach(async () => {
+    await sessionStore.shutdown();
+  });
+
+  it('starts containers on the least-loaded node', async () => {
+    // Utilisation 30%, 25% and 10%
+    setLoads([3, 1, 1]);
+    expect((await service.startContainer(profile)).node).toBe('worker-3');
+
+    setLoads([3, 1, 5]);
+    expect((await service.startContainer(profile)).node).toBe('worker-2');
+  });
+
+  it('skips nodes without free capacity', async () => {
+    setLoads([10, 1, 10]);
+    expect((await service.startContainer(profile)).node).toBe('worker-2');
+
+    setLoads([10, 4, 10]);
+    await expect(service.startContainer(profile)).rejects.toThrow('No Docker node has capacity for profile "default"');
+  });
+
+  it('fails over to the other nodes when one is unreachable', async () => {
+    setLoads([3, 1, 1]);
+    daemon('worker-3').reachable = false;
+
+    expect((await service.getNodeLoads()).map(load => load.name)).toEqual(['worker-1', 'worker-2']);
+    expect((await service.startContainer(profile)).node).toBe('worker-2');
+    expect(await service.healthCheck()).toBe(true);
+  });
+
+  it('only reports a container of an unknown node as stopped when every node was asked', async () => {
+    const started = await service.startContainer(profile);
+    expect(started.node).toBe('worker-1');
+
+    daemon('worker-1').reachable = false;
+    expect(await service.stopContainer(started.id)).toBe(false);
+
+    daemon('worker-1').reachable = true;
+    expect(await service.stopContainer(started.id)).toBe(true);
+    expect(daemon('worker-1').containers.has(started.id)).toBe(false);
+
+    // Gone everywhere
+    expect(await service.stopContainer(started.id)).toBe(true);
+
+    // Not on the reachable nodes, but it may be on the one that is down
+    daemon('worker-2').reachable = false;
+    expect(await service.stopContainer('container-9')).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { getTraceContext, withSpan } from '../../utils/tracing';
+
+const exporter = new InMemorySpanExporter();
+const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+describe('tracing helpers', () => {
+  beforeAll(() => {
+    provider.register();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  it('nests spans under the active one', async () => {
+    await withSpan('outer', {}, () => withSpan('inner', { 'docker.phase': 'pull' }, async () => undefined));
+
+    const [inner, outer] = exporter.getFinishedSpans();
+    expect(inner?.name).toBe('inner');
+    expect(inner?.attributes['docker.phase']).toBe('pull');
+    expect(inner?.parentSpanContext?.spanId).toBe(outer?.spanContext().spanId);
+    expect(inner?.spanContext().traceId).toBe(outer?.spanContext().traceId);
+  });
+
+  it('records failures on the span and rethrows them', async () => {
+    await expect(withSpan('failing', {}, async () => {
+      throw new Error('no such image');
+    })).rejects.toThrow('no such image');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status).toEqual({ code: SpanStatusCode.ERROR, message: 'no such image' });
+    expect(span?.events[0]?.name).toBe('exception');
+  });
+
+  it('exposes the active trace for log lines', async () => {
+    expect(getTraceContext()).toBeNull();
+
+    const ids = await withSpan('logged', {}, async (span) => {
+      expect(getTraceContext()).toEqual({
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+      });
+      return getTraceContext();
+    });
+    expect(ids?.traceId).toHaveLength(32);
+  });
+});
\ No newline at end of file
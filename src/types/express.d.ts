@@ -0,0 +1,12 @@
+import { AuthIdentity } from './index';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthIdentity;
+      requestId?: string;
+    }
+  }
+}
+
+export {};
@@ -1,16 +1,96 @@
+export type SessionEndReason =
+  | 'expired'
+  | 'user-stopped'
+  | 'admin-stopped'
+  | 'shutdown'
+  | 'start-failed'
+  | 'container-crashed'
+  | 'disk-limit-exceeded'
+  | 'transfer-limit-exceeded';
+
+export type SessionStatus = 'starting' | 'ready';
+
 export interface Session {
   containerId: string;
   hostPort: number;
   expiresAt: number;
-  timer: NodeJS.Timeout;
+  // Not set in redis store mode, where the shared expiry schedule is polled instead
+  timer?: NodeJS.Timeout;
+  status?: SessionStatus;
   userId?: string;
+  tenantId?: string;
+  profile?: string;
+  image?: string;
+  reservationId?: string;
+  // Docker node the container runs on
+  node?: string;
+  // Container address on its own network when its ports are not published;
+  // hostPort is then the container port
+  host?: string;
+  endReason?: SessionEndReason;
   metadata?: Record<string, any>;
 }
 
+// Optional attributes recorded alongside a new session
+export type SessionDetails = Partial<Pick<
+  Session,
+  'status' | 'userId' | 'tenantId' | 'profile' | 'image' | 'reservationId' | 'node' | 'host' | 'metadata'
+>>;
+
+// What is written to Redis; timers are re-armed when a session is loaded
+export type StoredSession = Omit<Session, 'timer'>;
+
 export interface ContainerInfo {
   id: string;
   hostPort: number;
   status: 'running' | 'stopped' | 'removed';
+  node: string;
+  // Set when ports are not published: reach hostPort on this address instead
+  // of the node's containerHost
+  host?: string;
+}
+
+export type SessionEventType =
+  | 'extended'
+  | 'expiring-soon'
+  | 'expired'
+  | 'stopped'
+  | 'container-crashed'
+  | 'limit-exceeded'
+  | 'maintenance';
+
+// Pushed to clients over GET /api/browser/sessions/:containerId/events
+export interface SessionEvent {
+  type: SessionEventType;
+  containerId: string;
+  expiresAt: number;
+  remainingTimeMs: number;
+  reason?: SessionEndReason;
+  // With 'maintenance': when this instance stops the session at the latest
+  deadline?: number;
+  timestamp: string;
+}
+
+// A container labelled disposable-suite=true as listed by Docker
+export interface ManagedContainer {
+  id: string;
+  node: string;
+  state: string;
+  labels: Record<string, string>;
+  createdAt: number;
+  // "3000/tcp" -> published host port, or the container port when unpublished
+  hostPorts: Record<string, number>;
+  // Address on the session network when ports are not published
+  host?: string;
+}
+
+export type OrphanPolicy = 'adopt' | 'kill' | 'ignore';
+
+export interface ReconcileReport {
+  checkedContainers: number;
+  droppedSessions: number;
+  adoptedContainers: number;
+  killedContainers: number;
 }
 
 export interface SessionRequest {
@@ -26,6 +106,177 @@ export interface SessionResponse {
   browserUrl: string;
   expiresAt: number;
   remainingTimeMs: number;
+  status?: SessionStatus;
+  userId?: string;
+  profile?: string;
+  image?: string;
+  createdAt?: string;
+  usage?: SessionUsage;
+}
+
+// What operators see of a session: the owner's tenant, the node it runs on and
+// the latest resource sample
+export interface FleetSession extends SessionResponse {
+  tenantId?: string;
+  node?: string;
+  stats: ContainerStats | null;
+}
+
+export interface AuthIdentity {
+  userId: string;
+  method: 'jwt' | 'api-key' | 'anonymous';
+  roles: string[];
+  tenantId?: string;
+}
+
+export interface ApiKeyConfig {
+  id: string;
+  userId: string;
+  hash: string;
+  roles?: string[];
+  tenantId?: string;
+}
+
+export type SessionJobState = 'queued' | 'pulling' | 'starting' | 'ready' | 'failed';
+
+// Tracks an asynchronous start-session request until it has a container
+export interface SessionJob {
+  id: string;
+  state: SessionJobState;
+  userId: string;
+  profile: string;
+  // Instance running the start; a restart fails its unfinished jobs
+  instanceId: string;
+  createdAt: string;
+  updatedAt: string;
+  containerId?: string;
+  error?: string;
+}
+
+export type ContainerStartPhase = 'pulling' | 'starting';
+
+export interface StartContainerOptions {
+  // Skips placement, e.g. to start on a node the caller already picked
+  node?: string;
+  // Merged into the standard disposable-suite labels
+  labels?: Record<string, string>;
+  onPhase?: (phase: ContainerStartPhase) => void;
+}
+
+export interface ContainerStats {
+  cpuPercent: number;
+  memoryBytes: number;
+  memoryLimitBytes: number;
+  networkRxBytes: number;
+  networkTxBytes: number;
+  blockReadBytes: number;
+  blockWriteBytes: number;
+  pids: number;
+  timestamp: string;
+}
+
+// Resource usage of one session with its recent samples, oldest first
+export interface SessionMetrics {
+  containerId: string;
+  userId?: string;
+  profile?: string;
+  node?: string;
+  current: ContainerStats | null;
+  history: ContainerStats[];
+}
+
+// Storage and traffic of a container since it started
+export interface ContainerUsage {
+  // Size of the writable layer
+  diskBytes: number;
+  // Used space in the download directory, 0 when none was measured
+  downloadBytes: number;
+  networkRxBytes: number;
+  networkTxBytes: number;
+  timestamp: string;
+}
+
+// The latest usage sample of a session with its hard limits (0 = none)
+export interface SessionUsage extends ContainerUsage {
+  diskLimitBytes: number;
+  transferLimitBytes: number;
+}
+
+export interface ContainerLogOptions {
+  // Number of lines from the end
+  tail?: number;
+  // Unix timestamp (seconds)
+  since?: number;
+  timestamps?: boolean;
+}
+
+export type ContainerExitListener = (containerId: string, exitCode: number, node: string) => void;
+
+export type RuntimeKind = 'docker' | 'fake';
+
+// What session orchestration needs from a container backend. Containers carry
+// the disposable-suite labels and publish the profile's ports on the node's
+// containerHost. Methods taking an optional node locate the container
+// themselves when it is not given.
+export interface ContainerRuntime {
+  startContainer(profile: SessionProfile, options?: StartContainerOptions): Promise<ContainerInfo>;
+  // Resolves true once the container is gone, including when it already was
+  stopContainer(containerId: string, node?: string): Promise<boolean>;
+  getContainerInfo(containerId: string, port?: string, node?: string): Promise<ContainerInfo | null>;
+  // Throws when the node cannot be listed
+  listManagedContainers(node?: string): Promise<ManagedContainer[]>;
+  getContainerStats(containerId: string, node?: string): Promise<ContainerStats | null>;
+  // Calls onStats with each new sample; returns a function that stops watching
+  watchContainerStats(containerId: string, onStats: (stats: ContainerStats) => void, node?: string): () => void;
+  getContainerLogs(containerId: string, options?: ContainerLogOptions, node?: string): Promise<string | null>;
+  // Measures downloadDir as well when given
+  getContainerUsage(containerId: string, downloadDir?: string, node?: string): Promise<ContainerUsage | null>;
+  getNodeNames(): string[];
+  getContainerHost(node?: string): string;
+  getActiveContainersCount(): Promise<number>;
+  cleanupOrphanedContainers(): Promise<number>;
+  getSystemStats(): Promise<Record<string, any>>;
+  // Returns a function that stops watching
+  watchContainerExits(onExit: ContainerExitListener): () => void;
+  healthCheck(): Promise<boolean>;
+}
+
+export interface CreateSessionOptions {
+  durationMs?: number;
+  owner?: Pick<AuthIdentity, 'userId' | 'tenantId'>;
+  profile?: string;
+  // Resolve only once the app answers; otherwise return with status 'starting'
+  waitForReady?: boolean;
+  onProgress?: (state: Exclude<SessionJobState, 'queued' | 'failed'>) => void;
+  // Quota already reserved by the caller (async starts admit up front)
+  reservation?: QuotaReservation;
+  // Recorded in the audit log
+  client?: ActionClient;
+}
+
+export type QueueTicketState = 'waiting' | 'admitted' | 'failed' | 'expired' | 'cancelled';
+
+// A start-session request waiting for a free slot. Once admitted it is started
+// as an async job and jobId points at GET /api/browser/sessions/:id/status.
+export interface QueueTicket {
+  id: string;
+  state: QueueTicketState;
+  // The replica whose queue holds the ticket
+  instanceId: string;
+  owner: Pick<AuthIdentity, 'userId' | 'tenantId'>;
+  client?: ActionClient;
+  durationMs?: number;
+  profile?: string;
+  createdAt: string;
+  lastSeenAt: number;
+  jobId?: string;
+  error?: string;
+}
+
+export interface QueueTicketStatus extends Omit<QueueTicket, 'owner' | 'client' | 'lastSeenAt' | 'instanceId'> {
+  userId: string;
+  position?: number;
+  estimatedWaitMs?: number;
 }
 
 export interface ApiResponse<T = any> {
@@ -33,6 +284,8 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  // Set by the request ID middleware on every response
+  requestId?: string;
 }
 
 export interface LogEntry {
@@ -43,12 +296,43 @@ export interface LogEntry {
 }
 
 export interface SessionAction {
-  action: 'start' | 'stop' | 'extend' | 'cleanup';
+  action: 'start' | 'stop' | 'extend' | 'expire' | 'cleanup';
   containerId: string;
+  // Owner of the session
   userId?: string;
   userAgent?: string;
   ip?: string;
   metadata?: Record<string, any>;
+  // Who triggered the action: a user ID, 'anonymous' or 'system'
+  actor?: string;
+  image?: string;
+  profile?: string;
+  reason?: SessionEndReason;
+}
+
+// The API client behind a session action
+export interface ActionClient {
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuditEvent extends SessionAction {
+  id: string;
+  timestamp: string;
+  actor: string;
+  instanceId: string;
+  requestId?: string;
+}
+
+export interface AuditQuery {
+  // Matches the owner or the actor
+  userId?: string;
+  containerId?: string;
+  action?: SessionAction['action'];
+  from?: number;
+  to?: number;
+  limit: number;
 }
 
 export interface RateLimitConfig {
@@ -59,6 +343,123 @@ export interface RateLimitConfig {
   legacyHeaders: boolean;
 }
 
+// HTTP check that decides when the app inside a container accepts traffic
+export interface HealthCheckConfig {
+  path: string;
+  timeoutMs: number;
+  intervalMs: number;
+  // Status codes counted as ready; any response below 500 when empty
+  expectedStatus?: number[];
+}
+
+// A launchable disposable app: which image to run and how to size it
+export interface SessionProfile {
+  name: string;
+  displayName: string;
+  description?: string;
+  image: string;
+  // Container ports to expose, e.g. '3000/tcp'; the first one is proxied
+  ports: string[];
+  environment: string[];
+  memoryLimit: string;
+  cpuLimit: number;
+  shmSize: number;
+  maxDurationMs: number;
+  healthCheck?: HealthCheckConfig;
+  // Only place sessions on Docker nodes carrying all of these labels
+  nodeSelector?: Record<string, string>;
+  // Defaults to DEFAULT_EGRESS_POLICY
+  egress?: EgressConfig;
+  // Replaces the matching CONTAINER_* hardening settings
+  hardening?: Partial<HardeningConfig>;
+  // Replaces the matching SESSION_* disk and network limits
+  limits?: Partial<ResourceLimitsConfig>;
+}
+
+// Disk and network limits of session containers. Sizes are Docker-style
+// ("4g"); an empty size or 0 disables the limit.
+export interface ResourceLimitsConfig {
+  // Hard limit on the writable layer; the session ends when it is exceeded
+  diskSize: string;
+  // Also hand diskSize to Docker as storage-opt, which needs overlay2 on xfs with pquota
+  diskStorageOpt: boolean;
+  // A tmpfs of downloadQuota is mounted at downloadDir, so writes beyond it fail
+  downloadDir: string;
+  downloadQuota: string;
+  // Outgoing rate, shaped with tc inside the container's network namespace
+  egressMbit: number;
+  // Hard limit on bytes received plus sent; the session ends when it is exceeded
+  maxTransfer: string;
+}
+
+export interface Ulimit {
+  name: string;
+  soft: number;
+  hard: number;
+}
+
+// Security settings of session containers. All capabilities are dropped and
+// capAdd is added back.
+export interface HardeningConfig {
+  capAdd: string[];
+  noNewPrivileges: boolean;
+  // 'default' (Docker's built-in profile), 'unconfined', or the path of a JSON profile
+  seccompProfile: string;
+  readOnlyRootfs: boolean;
+  // Mount point -> tmpfs options, e.g. { "/tmp": "rw,nosuid,size=256m" }
+  tmpfs: Record<string, string>;
+  // 0 = unlimited
+  pidsLimit: number;
+  ulimits: Ulimit[];
+  // Only run on nodes whose daemon remaps containers into a user namespace (userns-remap)
+  userNamespace: boolean;
+}
+
+// allow-all: direct internet access. The others cut the session network off
+// and send traffic through the API's filtering proxy: deny-private blocks
+// private, loopback and link-local destinations, allowlist additionally only
+// lets allowedDomains (and their subdomains) through, none blocks everything.
+export type EgressPolicy = 'allow-all' | 'deny-private' | 'allowlist' | 'none';
+
+export interface EgressConfig {
+  policy: EgressPolicy;
+  allowedDomains?: string[];
+}
+
+// per-session: every container gets its own bridge network. bridge: Docker's
+// default bridge, shared by all containers (no isolation).
+export type NetworkMode = 'per-session' | 'bridge';
+
+export interface DockerNodeConfig {
+  name: string;
+  // A local daemon socket, or host/port for TCP (TLS when protocol is https)
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  protocol?: 'http' | 'https';
+  caPath?: string;
+  certPath?: string;
+  keyPath?: string;
+  // Address the API uses to reach ports published on this node
+  containerHost: string;
+  // Containers (sessions and warm pool) the node may run at once
+  capacity: number;
+  labels: Record<string, string>;
+  // The API's own container on this node. It joins each session network, so
+  // ports need not be published and the egress proxy can be reached.
+  apiContainer?: string;
+}
+
+export type PlacementStrategy = 'least-loaded' | 'bin-pack';
+
+export interface NodeLoad {
+  name: string;
+  running: number;
+  capacity: number;
+  labels: Record<string, string>;
+  userNamespaces: boolean;
+}
+
 export interface DockerConfig {
   image: string;
   memoryLimit: string;
@@ -66,12 +467,62 @@ export interface DockerConfig {
   shmSize: number;
   environment: string[];
   portBindings: Record<string, any>;
+  // Host the API uses to reach published container ports
+  containerHost: string;
+  readiness: HealthCheckConfig & { enabled: boolean };
+  defaultProfile: string;
+  profiles: SessionProfile[];
+  nodes: DockerNodeConfig[];
+  placementStrategy: PlacementStrategy;
+  hardening: HardeningConfig;
+  limits: ResourceLimitsConfig;
+  // Image with tc, run in a session's network namespace to shape its egress
+  trafficShaperImage: string;
+  network: {
+    mode: NetworkMode;
+    defaultEgress: EgressConfig;
+    // Filtering proxy for sessions without direct egress, reached by
+    // containers under proxyAlias on their network
+    egressProxyPort: number;
+    egressProxyAlias: string;
+  };
+}
+
+// 0 means unlimited
+export interface QuotaLimits {
+  maxConcurrentSessions: number;
+  maxSessionMinutesPerDay: number;
+  maxExtensions: number;
+}
+
+export type QuotaScope = 'user' | 'tenant';
+
+export type QuotaName = 'concurrent-sessions' | 'session-minutes' | 'extensions';
+
+export interface QuotaReservation {
+  id: string;
+  userId: string;
+  tenantId?: string;
+  minutes: number;
+}
+
+export interface WarmPoolConfig {
+  // Idle containers to keep per profile name; empty disables the pool
+  sizes: Record<string, number>;
+  maxIdleMs: number;
+  refillIntervalMs: number;
 }
 
+export type SessionStoreMode = 'local' | 'redis';
+
 export interface AppConfig {
   port: number;
   host: string;
   nodeEnv: string;
+  // Identifies this API process among replicas
+  instanceId: string;
+  // Container backend; 'fake' runs sessions in-process without Docker
+  runtime: RuntimeKind;
   publicBaseUrl: string;
   cors: {
     allowedOrigins: string[];
@@ -80,6 +531,9 @@ export interface AppConfig {
     jwtSecret: string;
     jwtExpiresIn: string;
     bcryptRounds: number;
+    authEnabled: boolean;
+    apiKeys: ApiKeyConfig[];
+    apiKeyCacheTtlMs: number;
   };
   docker: DockerConfig;
   redis: {
@@ -91,14 +545,78 @@ export interface AppConfig {
     level: string;
     filePath: string;
   };
+  audit: {
+    enabled: boolean;
+    // Append-only JSONL file, one event per line
+    filePath: string;
+  };
+  drain: {
+    // Sent as Retry-After with the 503 for new sessions while draining
+    retryAfterSeconds: number;
+    // How long shutdown waits for sessions to end before stopping them
+    deadlineMs: number;
+    // With Redis persistence, shutdown leaves sessions running for the next process
+    handoff: boolean;
+    // Toggles maintenance mode
+    signal: NodeJS.Signals;
+  };
   monitoring: {
     enabled: boolean;
     port: number;
+    // Lets /metrics be scraped on the API port as well; empty keeps it on the monitoring port
+    metricsToken: string;
+  };
+  tracing: {
+    enabled: boolean;
+    serviceName: string;
+    // OTLP/HTTP traces endpoint, e.g. a local collector
+    exporterUrl: string;
+    // Share of new traces that are sampled; incoming traceparent decisions are kept
+    sampleRatio: number;
+  };
+  jobs: {
+    retentionMs: number;
+  };
+  events: {
+    warningThresholdsMs: number[];
+    heartbeatIntervalMs: number;
+  };
+  sessionMetrics: {
+    // Keep a stats stream open per session; otherwise stats are sampled on request
+    enabled: boolean;
+    historyIntervalMs: number;
+    historySize: number;
+  };
+  queue: {
+    enabled: boolean;
+    maxLength: number;
+    ticketTimeoutMs: number;
+    persistent: boolean;
+  };
+  reconciler: {
+    intervalMs: number;
+    orphanPolicy: OrphanPolicy;
+    graceMs: number;
   };
   sessions: {
     defaultDurationMs: number;
     maxSessions: number;
     cleanupIntervalMs: number;
     persistenceEnabled: boolean;
+    stopMaxRetries: number;
+    stopRetryDelayMs: number;
+    storeMode: SessionStoreMode;
+    expiryPollIntervalMs: number;
+    reapLockMs: number;
+    startLeaseMs: number;
+    // How often usage is sampled and hard limits are checked; 0 disables it
+    usageCheckIntervalMs: number;
+  };
+  warmPool: WarmPoolConfig;
+  quotas: {
+    user: QuotaLimits;
+    tenant: QuotaLimits;
+    // Keyed by "user:<id>" or "tenant:<id>"
+    overrides: Record<string, Partial<QuotaLimits>>;
   };
 } 
\ No newline at end of file
@@ -0,0 +1,34 @@
+// The session access token travels in the URL and a cookie because the browser
+// iframe and EventSource cannot send headers. Neither may end up in logs or
+// reach the session's container.
+export const ACCESS_TOKEN_PARAM = 'access_token';
+export const SESSION_COOKIE_PREFIX = 'ds_access_';
+
+// Headers carrying credentials for this API
+export const CREDENTIAL_HEADERS = ['authorization', 'x-api-key'];
+
+const isAccessTokenParam = (param: string): boolean =>
+  param === ACCESS_TOKEN_PARAM || param.startsWith(`${ACCESS_TOKEN_PARAM}=`);
+
+const mapQuery = (url: string, map: (params: string[]) => string[]): string => {
+  const index = url.indexOf('?');
+  if (index < 0) return url;
+
+  const params = map(url.slice(index + 1).split('&'));
+  return params.length > 0 ? `${url.slice(0, index)}?${params.join('&')}` : url.slice(0, index);
+};
+
+// For log lines: keeps the parameter so it is clear a token was sent
+export const redactUrl = (url: string): string =>
+  mapQuery(url, params => params.map(param => (isAccessTokenParam(param) ? `${ACCESS_TOKEN_PARAM}=REDACTED` : param)));
+
+// Leaves the other parameters untouched, encoding included
+export const removeAccessToken = (url: string): string =>
+  mapQuery(url, params => params.filter(param => !isAccessTokenParam(param)));
+
+export const removeSessionCookies = (header: string): string =>
+  header
+    .split(';')
+    .map(cookie => cookie.trim())
+    .filter(cookie => cookie && !cookie.startsWith(SESSION_COOKIE_PREFIX))
+    .join('; ');
\ No newline at end of file
@@ -0,0 +1,18 @@
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with a header row; objects are written as JSON
+export const toCsv = <T extends object>(columns: Array<keyof T & string>, rows: T[]): string =>
+  [columns.join(','), ...rows.map(row => columns.map(column => toCell(row[column])).join(','))]
+    .map(line => `${line}\r\n`)
+    .join('');
\ No newline at end of file
@@ -0,0 +1,50 @@
+import net from 'net';
+import { EgressConfig, SessionProfile } from '../types';
+import config from '../config';
+
+// [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+];
+
+const ipv4ToNumber = (address: string): number =>
+  address.split('.').reduce((total, octet) => total * 256 + parseInt(octet, 10), 0);
+
+const inIpv4Range = (address: string, [network, prefix]: [string, number]): boolean => {
+  const size = 2 ** (32 - prefix);
+  return Math.floor(ipv4ToNumber(address) / size) === Math.floor(ipv4ToNumber(network) / size);
+};
+
+export const resolveEgress = (profile: SessionProfile): EgressConfig =>
+  profile.egress || config.docker.network.defaultEgress;
+
+// Anything but allow-all runs on a network without a route out
+export const needsEgressProxy = (egress: EgressConfig): boolean => egress.policy !== 'allow-all';
+
+// Private, loopback, link-local, CGNAT, multicast and unspecified addresses
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const ip = mapped ? mapped[1]! : address;
+
+  if (net.isIPv4(ip)) {
+    return PRIVATE_IPV4_RANGES.some(range => inIpv4Range(ip, range));
+  }
+  const lower = ip.toLowerCase();
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+};
+
+// "example.com" allows example.com and any subdomain of it
+export const matchesDomain = (hostname: string, domains: string[]): boolean => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return domains.some(domain => {
+    const allowed = domain.toLowerCase().replace(/^\*?\./, '');
+    return host === allowed || host.endsWith(`.${allowed}`);
+  });
+};
\ No newline at end of file
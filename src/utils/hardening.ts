@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { HardeningConfig, SessionProfile } from '../types';
+import config from '../config';
+
+const CAPABILITIES = [
+  'AUDIT_CONTROL', 'AUDIT_READ', 'AUDIT_WRITE', 'BLOCK_SUSPEND', 'BPF', 'CHECKPOINT_RESTORE', 'CHOWN',
+  'DAC_OVERRIDE', 'DAC_READ_SEARCH', 'FOWNER', 'FSETID', 'IPC_LOCK', 'IPC_OWNER', 'KILL', 'LEASE',
+  'LINUX_IMMUTABLE', 'MAC_ADMIN', 'MAC_OVERRIDE', 'MKNOD', 'NET_ADMIN', 'NET_BIND_SERVICE',
+  'NET_BROADCAST', 'NET_RAW', 'PERFMON', 'SETFCAP', 'SETGID', 'SETPCAP', 'SETUID', 'SYSLOG',
+  'SYS_ADMIN', 'SYS_BOOT', 'SYS_CHROOT', 'SYS_MODULE', 'SYS_NICE', 'SYS_PACCT', 'SYS_PTRACE',
+  'SYS_RAWIO', 'SYS_RESOURCE', 'SYS_TIME', 'SYS_TTY_CONFIG', 'WAKE_ALARM',
+];
+
+const ULIMITS = [
+  'core', 'cpu', 'data', 'fsize', 'locks', 'memlock', 'msgqueue', 'nice', 'nofile', 'nproc',
+  'rss', 'rtprio', 'rttime', 'sigpending', 'stack',
+];
+
+// Custom seccomp profiles are read once; Docker takes the JSON itself, not a path
+const seccompProfiles = new Map<string, string>();
+
+const loadSeccompProfile = (file: string): string => {
+  let profile = seccompProfiles.get(file);
+  if (profile === undefined) {
+    profile = JSON.stringify(JSON.parse(fs.readFileSync(file, 'utf8')));
+    seccompProfiles.set(file, profile);
+  }
+  return profile;
+};
+
+const normalizeCapability = (capability: string): string =>
+  capability.trim().toUpperCase().replace(/^CAP_/, '');
+
+// Profile settings replace the global ones field by field
+export const resolveHardening = (profile: SessionProfile): HardeningConfig => ({
+  ...config.docker.hardening,
+  ...profile.hardening,
+});
+
+// The HostConfig fields that apply the hardening to a container
+export const buildSecurityOptions = (hardening: HardeningConfig) => {
+  const securityOpt: string[] = [];
+  if (hardening.noNewPrivileges) {
+    securityOpt.push('no-new-privileges:true');
+  }
+  if (hardening.seccompProfile === 'unconfined') {
+    securityOpt.push('seccomp=unconfined');
+  } else if (hardening.seccompProfile !== 'default') {
+    securityOpt.push(`seccomp=${loadSeccompProfile(hardening.seccompProfile)}`);
+  }
+
+  return {
+    CapDrop: ['ALL'],
+    CapAdd: hardening.capAdd.map(normalizeCapability),
+    SecurityOpt: securityOpt,
+    ReadonlyRootfs: hardening.readOnlyRootfs,
+    Tmpfs: hardening.tmpfs,
+    ...(hardening.pidsLimit > 0 ? { PidsLimit: hardening.pidsLimit } : {}),
+    Ulimits: hardening.ulimits.map(ulimit => ({ Name: ulimit.name, Soft: ulimit.soft, Hard: ulimit.hard })),
+  };
+};
+
+// Problems with the hardening settings, empty when they are usable
+export const validateHardening = (hardening: HardeningConfig): string[] => {
+  const problems: string[] = [];
+
+  if (!Array.isArray(hardening.capAdd)) {
+    problems.push('hardening.capAdd must be an array');
+  } else {
+    const unknown = hardening.capAdd.filter(capability => !CAPABILITIES.includes(normalizeCapability(capability)));
+    if (unknown.length > 0) {
+      problems.push(`unknown capabilities: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (hardening.seccompProfile !== 'default' && hardening.seccompProfile !== 'unconfined') {
+    try {
+      loadSeccompProfile(hardening.seccompProfile);
+    } catch (error) {
+      problems.push(`seccomp profile ${hardening.seccompProfile} is unusable: ${(error as Error).message}`);
+    }
+  }
+
+  if (typeof hardening.tmpfs !== 'object' || hardening.tmpfs === null || Array.isArray(hardening.tmpfs)) {
+    problems.push('hardening.tmpfs must map mount points to options');
+  } else {
+    for (const [mountPoint, options] of Object.entries(hardening.tmpfs)) {
+      if (!path.posix.isAbsolute(mountPoint)) problems.push(`tmpfs mount point ${mountPoint} must be absolute`);
+      if (typeof options !== 'string') problems.push(`tmpfs options for ${mountPoint} must be a string`);
+    }
+  }
+
+  if (!Number.isInteger(hardening.pidsLimit) || hardening.pidsLimit < 0) {
+    problems.push('hardening.pidsLimit must be a non-negative integer');
+  }
+
+  if (!Array.isArray(hardening.ulimits)) {
+    problems.push('hardening.ulimits must be an array');
+  } else {
+    for (const ulimit of hardening.ulimits) {
+      if (!ULIMITS.includes(ulimit?.name)) {
+        problems.push(`unknown ulimit: ${ulimit?.name}`);
+      } else if (!Number.isInteger(ulimit.soft) || !Number.isInteger(ulimit.hard) || ulimit.soft > ulimit.hard) {
+        problems.push(`ulimit ${ulimit.name} needs integer soft and hard values with soft <= hard`);
+      }
+    }
+  }
+
+  return problems;
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+// Every container of this suite carries MANAGED_LABEL=true, whatever runtime started it
+export const MANAGED_LABEL = 'disposable-suite';
+
+// Name of the container's own network in per-session network mode
+export const NETWORK_LABEL = 'disposable-suite.network';
+
+// Labels that let a session be rebuilt from its container if its record is lost
+export const SESSION_LABELS = {
+  profile: 'disposable-suite.profile',
+  user: 'disposable-suite.user',
+  tenant: 'disposable-suite.tenant',
+  reservation: 'disposable-suite.reservation',
+  expiresAt: 'disposable-suite.expires-at',
+  instance: 'disposable-suite.instance',
+};
+
+// Standard labels of a new container, before the caller's own
+export const baseLabels = (profileName: string, instanceId: string): Record<string, string> => ({
+  [MANAGED_LABEL]: 'true',
+  'created-by': 'disposable-suite',
+  'created-at': new Date().toISOString(),
+  [SESSION_LABELS.profile]: profileName,
+  [SESSION_LABELS.instance]: instanceId,
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import path from 'path';
+import { ResourceLimitsConfig, SessionProfile } from '../types';
+import config from '../config';
+import { parseMemoryLimit } from './resources';
+
+const parseSize = (size: string): number => (size ? parseMemoryLimit(size) : 0);
+
+// Profile settings replace the global ones field by field
+export const resolveLimits = (profile: SessionProfile): ResourceLimitsConfig => ({
+  ...config.docker.limits,
+  ...profile.limits,
+});
+
+// The limits in bytes that end a session when exceeded; 0 = none
+export const getHardLimits = (limits: ResourceLimitsConfig): { diskBytes: number; transferBytes: number } => ({
+  diskBytes: parseSize(limits.diskSize),
+  transferBytes: parseSize(limits.maxTransfer),
+});
+
+// HostConfig fields for the writable layer and the download directory, which
+// joins the other tmpfs mounts. tmpfs pages count against the memory limit.
+export const buildStorageOptions = (limits: ResourceLimitsConfig, tmpfs: Record<string, string>) => ({
+  ...(limits.diskSize && limits.diskStorageOpt ? { StorageOpt: { size: limits.diskSize } } : {}),
+  Tmpfs: {
+    ...tmpfs,
+    ...(limits.downloadQuota
+      ? { [limits.downloadDir]: `rw,nosuid,nodev,mode=1777,size=${parseSize(limits.downloadQuota)}` }
+      : {}),
+  },
+});
+
+// Problems with the limits, empty when they are usable
+export const validateLimits = (limits: ResourceLimitsConfig): string[] => {
+  const problems: string[] = [];
+
+  for (const field of ['diskSize', 'downloadQuota', 'maxTransfer'] as const) {
+    try {
+      parseSize(limits[field]);
+    } catch (error) {
+      problems.push(`limits.${field}: ${(error as Error).message}`);
+    }
+  }
+  if (limits.downloadQuota && !path.posix.isAbsolute(limits.downloadDir)) {
+    problems.push('limits.downloadDir must be absolute');
+  }
+  if (!(limits.egressMbit >= 0)) {
+    problems.push('limits.egressMbit must not be negative');
+  }
+
+  return problems;
+};
\ No newline at end of file
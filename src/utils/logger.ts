@@ -3,6 +3,9 @@ import DailyRotateFile from 'winston-daily-rotate-file';
 import path from 'path';
 import fs from 'fs';
 import config from '../config';
+import { getTraceContext } from './tracing';
+import { getRequestId } from './requestContext';
+import { redactUrl } from './credentials';
 
 // Ensure logs directory exists
 const logsDir = path.dirname(config.logging.filePath);
@@ -10,8 +13,23 @@ if (!fs.existsSync(logsDir)) {
   fs.mkdirSync(logsDir, { recursive: true });
 }
 
+// Tags entries with the request and the span they were logged in
+const correlation = winston.format((info) => {
+  const requestId = getRequestId();
+  if (requestId && !info['requestId']) {
+    info['requestId'] = requestId;
+  }
+  const trace = getTraceContext();
+  if (trace) {
+    info['trace_id'] = trace.traceId;
+    info['span_id'] = trace.spanId;
+  }
+  return info;
+});
+
 // Custom format for structured logging
 const logFormat = winston.format.combine(
+  correlation(),
   winston.format.timestamp(),
   winston.format.errors({ stack: true }),
   winston.format.json()
@@ -86,8 +104,10 @@ export const logRequest = (req: any, res: any, next: any): void => {
   res.on('finish', () => {
     const duration = Date.now() - start;
     logger.info('HTTP request', {
+      // 'finish' may fire outside the request's async context
+      requestId: req.requestId,
       method: req.method,
-      url: req.url,
+      url: redactUrl(req.url),
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       userAgent: req.get('User-Agent'),
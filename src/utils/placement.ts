@@ -0,0 +1,27 @@
+import { NodeLoad, PlacementStrategy, SessionProfile } from '../types';
+
+export const matchesSelector = (labels: Record<string, string>, selector: Record<string, string> = {}): boolean =>
+  Object.entries(selector).every(([key, value]) => labels[key] === value);
+
+const utilisation = (node: NodeLoad): number => node.running / node.capacity;
+
+// Picks the node for a new container among those with free capacity whose
+// labels satisfy the profile's nodeSelector, or null if there is none.
+// least-loaded spreads containers by utilisation; bin-pack fills the busiest
+// node first so others can be drained or scaled down. Ties go by node name.
+export const pickNode = (
+  nodes: NodeLoad[],
+  profile: SessionProfile,
+  strategy: PlacementStrategy
+): NodeLoad | null => {
+  const eligible = nodes.filter(node => node.running < node.capacity && matchesSelector(node.labels, profile.nodeSelector));
+
+  eligible.sort((a, b) => {
+    const byLoad = strategy === 'bin-pack'
+      ? utilisation(b) - utilisation(a)
+      : utilisation(a) - utilisation(b);
+    return byLoad || a.name.localeCompare(b.name);
+  });
+
+  return eligible[0] || null;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import Redis, { RedisOptions } from 'ioredis';
+import config from '../config';
+import logger from './logger';
+
+// Shared connection settings for the modules that keep state in Redis.
+// Returns null when persistence is disabled so callers fall back to memory.
+export const createRedisClient = (purpose: string): Redis | null => {
+  if (!config.sessions.persistenceEnabled) {
+    return null;
+  }
+
+  const redisOptions: RedisOptions = {
+    db: config.redis.db,
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+  };
+  if (config.redis.password) {
+    redisOptions.password = config.redis.password;
+  }
+
+  const client = new Redis(config.redis.url, redisOptions);
+
+  client.on('connect', () => {
+    logger.info(`Redis connected for ${purpose}`);
+  });
+
+  client.on('error', (error) => {
+    logger.error(`Redis ${purpose} error`, { error: error.message });
+  });
+
+  return client;
+};
@@ -0,0 +1,12 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+// Carries per-request data through every await of the request, so log lines
+// written far from the handler (Docker, Redis, session manager) can be tied
+// back to it
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestId = (): string | undefined => requestContext.getStore()?.requestId;
\ No newline at end of file
@@ -0,0 +1,19 @@
+// Parses Docker-style memory sizes ("512m", "2g") into bytes
+export const parseMemoryLimit = (memoryLimit: string): number => {
+  const units: Record<string, number> = {
+    'b': 1,
+    'k': 1024,
+    'm': 1024 * 1024,
+    'g': 1024 * 1024 * 1024,
+  };
+
+  const match = memoryLimit.match(/^(\d+)([bkmg])?$/i);
+  if (!match) {
+    throw new Error(`Invalid memory limit format: ${memoryLimit}`);
+  }
+
+  const value = parseInt(match[1]!, 10);
+  const unit = (match[2] || 'b').toLowerCase();
+  
+  return value * units[unit]!;
+};
@@ -0,0 +1,29 @@
+import { Attributes, Span, SpanStatusCode, isSpanContextValid, trace } from '@opentelemetry/api';
+
+// Resolves to a no-op tracer until src/instrumentation.ts registers a provider
+const tracer = trace.getTracer('disposable-suite');
+
+// Runs fn in a span that is a child of the active one. Failures are recorded
+// on the span and rethrown.
+export const withSpan = <T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> => tracer.startActiveSpan(name, { attributes }, async (span) => {
+  try {
+    return await fn(span);
+  } catch (error) {
+    span.recordException(error as Error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+    throw error;
+  } finally {
+    span.end();
+  }
+});
+
+// IDs of the active span, for correlating log lines with traces
+export const getTraceContext = (): { traceId: string; spanId: string } | null => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !isSpanContextValid(spanContext)) return null;
+  return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+};
\ No newline at end of file